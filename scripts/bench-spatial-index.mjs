@@ -0,0 +1,112 @@
+import { createServer } from "vite"
+
+const POINT_COUNT = 200_000
+const WORLD_SIZE = 20_000
+const RADIUS = 80
+const QUERY_COUNT = 20_000
+const SEED = 1337
+
+function createRandom(seed) {
+  let state = seed
+  return () => {
+    state = (state * 16807) % 2147483647
+    return state / 2147483647
+  }
+}
+
+function syntheticSpawns() {
+  const random = createRandom(SEED)
+  const points = []
+  // Mix clustered camps with a uniform background, like a continent-wide spawn dump.
+  while (points.length < POINT_COUNT * 0.7) {
+    const cx = random() * WORLD_SIZE
+    const cy = random() * WORLD_SIZE
+    const size = 5 + Math.floor(random() * 40)
+    for (let index = 0; index < size && points.length < POINT_COUNT * 0.7; index += 1) {
+      points.push({ id: points.length, x: cx + (random() - 0.5) * 300, y: cy + (random() - 0.5) * 300, z: 0 })
+    }
+  }
+  while (points.length < POINT_COUNT) {
+    points.push({ id: points.length, x: random() * WORLD_SIZE, y: random() * WORLD_SIZE, z: 0 })
+  }
+  return points
+}
+
+// The string-keyed grid that auto-route used before the typed-array index, kept here as the baseline.
+function legacyNeighborCounts(points, radius) {
+  const cells = new Map()
+  for (const point of points) {
+    const key = `${Math.floor(point.x / radius)},${Math.floor(point.y / radius)}`
+    const bucket = cells.get(key)
+    if (bucket) bucket.push(point)
+    else cells.set(key, [point])
+  }
+
+  const counts = new Map()
+  const r2 = radius * radius
+  for (const point of points) {
+    const cx = Math.floor(point.x / radius)
+    const cy = Math.floor(point.y / radius)
+    let count = 0
+    for (let dy = -1; dy <= 1; dy += 1) {
+      for (let dx = -1; dx <= 1; dx += 1) {
+        const bucket = cells.get(`${cx + dx},${cy + dy}`)
+        if (!bucket) continue
+        for (const other of bucket) {
+          const ox = other.x - point.x
+          const oy = other.y - point.y
+          if (ox * ox + oy * oy <= r2) count += 1
+        }
+      }
+    }
+    counts.set(point.id, count)
+  }
+  return counts
+}
+
+function measure(label, run) {
+  const startedAt = performance.now()
+  const result = run()
+  const elapsed = performance.now() - startedAt
+  console.log(`${label.padEnd(32)} ${elapsed.toFixed(1).padStart(9)} ms`)
+  return { result, elapsed }
+}
+
+async function main() {
+  const server = await createServer({ server: { middlewareMode: true }, appType: "custom", logLevel: "error" })
+  try {
+    const { computeNeighborCounts } = await server.ssrLoadModule("/src/lib/auto-route.ts")
+    const { createSpatialIndex, countInRadius, queryNearest } = await server.ssrLoadModule("/src/lib/spatial-index.ts")
+
+    const points = syntheticSpawns()
+    console.log(`points=${points.length} radius=${RADIUS} world=${WORLD_SIZE}x${WORLD_SIZE}`)
+
+    // Warm both paths once so the JIT does not skew the first measurement.
+    legacyNeighborCounts(points.slice(0, 5000), RADIUS)
+    computeNeighborCounts(points.slice(0, 5000), RADIUS)
+
+    const legacy = measure("neighbor counts (string grid)", () => legacyNeighborCounts(points, RADIUS))
+    const typed = measure("neighbor counts (typed index)", () => computeNeighborCounts(points, RADIUS))
+
+    let mismatches = 0
+    for (const point of points) {
+      if (legacy.result.get(point.id) !== typed.result.get(point.id)) mismatches += 1
+    }
+    console.log(`speedup x${(legacy.elapsed / typed.elapsed).toFixed(2)}, mismatches=${mismatches}`)
+
+    const index = measure("build index", () => createSpatialIndex(points, RADIUS, (item) => item)).result
+    const random = createRandom(SEED + 1)
+    const centers = Array.from({ length: QUERY_COUNT }, () => ({ x: random() * WORLD_SIZE, y: random() * WORLD_SIZE }))
+    measure(`${QUERY_COUNT} radius queries`, () => centers.reduce((sum, center) => sum + countInRadius(index, center, RADIUS * 3), 0))
+    measure(`${QUERY_COUNT} 8-nearest queries`, () => centers.reduce((sum, center) => sum + queryNearest(index, center, 8).length, 0))
+
+    if (mismatches > 0) process.exitCode = 1
+  } finally {
+    await server.close()
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -2,6 +2,10 @@
 
 fn main() {
   tauri::Builder::default()
+    .plugin(tauri_plugin_dialog::init())
+    .plugin(tauri_plugin_fs::init())
+    // Keeps the fs scope granted through dialogs across restarts, so recent projects can be reopened by path.
+    .plugin(tauri_plugin_persisted_scope::init())
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
 }
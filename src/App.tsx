@@ -4,7 +4,40 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
-import { computeNeighborCounts, generateAutoRoute, tuneAutoRouteParams, type SpawnXYZ } from "@/lib/auto-route"
+import {
+  computeNeighborCounts,
+  denseThreshold,
+  type AutoRouteStopReason,
+  type PackPolicy,
+  type SpawnXYZ,
+  type TuneExploration,
+  type TunedAutoRouteParams,
+} from "@/lib/auto-route"
+import type { AutoRouteJobRequest, AutoRouteJobResult } from "@/lib/auto-route-job"
+import { runAutoRouteInWorker, scanSpotsInWorker, type AutoRouteWorkerProgress } from "@/lib/auto-route-worker"
+import { dbscan, type SpawnCluster } from "@/lib/clustering"
+import { pointInPolygon } from "@/lib/polygon"
+import { createSpatialIndex, queryNearest } from "@/lib/spatial-index"
+import { countSpawnOverlaps, sameSpawnAt, spawnAt, type SpawnColumns } from "@/lib/spawn-columns"
+import type { ImportedSpawn, SpawnField, SpawnImportError, SpawnImportErrorReason } from "@/lib/spawn-import"
+import type { SpawnImportJobProgress } from "@/lib/spawn-import-job"
+import { importSpawnFilesInWorker } from "@/lib/spawn-import-worker"
+import {
+  defaultExportSettings,
+  getRouteExporter,
+  listRouteExporters,
+  type ExportSettingValues,
+} from "@/lib/route-export"
+import {
+  serializeProject,
+  type LoadedWorkspace,
+  type ProjectLoadErrorReason,
+  type ProjectWorkspace,
+} from "@/lib/project-file"
+import { parseProjectInWorker, serializeProjectInWorker } from "@/lib/project-file-worker"
+import { parseRouteText, type RouteImportErrorReason } from "@/lib/route-import"
+import type { SpotCandidate, SpotScanResult } from "@/lib/spot-scan"
+import { addRecentProject, createProjectStorage, type RecentProject } from "@/lib/storage"
 
 type PixelPoint = { x: number; y: number }
 type WorldPoint = { x: number; y: number }
@@ -61,23 +94,49 @@ type MarkPoint = {
   name: string
   center: [number, number, number]
   radius: number
+  route: number
 }
 
-type SpawnPoint = {
+// `id` stays the guid from the file; `key` is unique across layers, so datasets that number their rows
+// independently don't shadow each other in density, hazard and exclusion sets.
+type SpawnPoint = ImportedSpawn & { key: number; layer: SpawnLayer }
+
+type SpawnLayerRole = "target" | "hazard" | "display"
+
+type SpawnLayer = {
   id: number
-  positionX: number
-  positionY: number
-  positionZ: number
-  map: number
-  faction: number
-  levelMin: number
-  levelMax: number
+  name: string
+  color: string
+  visible: boolean
+  role: SpawnLayerRole
+  // Row n of the layer has key keyBase + n.
+  keyBase: number
+  spawns: SpawnColumns
 }
 
-type ProjectedSpawn = SpawnPoint & { screenX: number; screenY: number; color: string }
+// Filtered spawns that fall on the map image, flattened across layers: item i is row rows[i] of
+// layers[layerIndex[i]], at image pixel (imageX[i], imageY[i]). Screen positions are worked out while drawing.
+type ImageSpawns = {
+  count: number
+  layers: SpawnLayer[]
+  layerIndex: Uint32Array
+  rows: Uint32Array
+  imageX: Float64Array
+  imageY: Float64Array
+}
 
 type ProjectedMarkPoint = MarkPoint & { screenX: number; screenY: number }
 
+type NoGoZone = {
+  id: number
+  name: string
+  points: WorldPoint[]
+}
+
+type ProjectedNoGoZone = { id: number; name: string; screenPoints: PixelPoint[] }
+
+type ProjectedCluster = SpawnCluster & { screenHull: PixelPoint[]; screenCenter: PixelPoint; excluded: boolean }
+
 type AnchorKey = "A" | "B" | "C"
 
 type AnchorPoint = {
@@ -105,6 +164,120 @@ const AFFINE_WORLD_TO_IMAGE_BY_MAP: Record<string, AffineWorldToImage | undefine
   kingdoms: undefined,
 }
 
+const ROUTE_COLORS = [
+  "rgba(34,211,238,0.9)",
+  "rgba(250,204,21,0.9)",
+  "rgba(244,114,182,0.9)",
+  "rgba(163,230,53,0.9)",
+  "rgba(251,146,60,0.9)",
+  "rgba(167,139,250,0.9)",
+]
+
+const STOP_REASON_LABELS: Record<AutoRouteStopReason, { label: string; hint: string }> = {
+  "max-waypoints": { label: "达到点位数量上限", hint: "可增大点位数量上限" },
+  "no-point-in-step": { label: "步长内没有未访问的安全点", hint: "可增大最大步长" },
+  "area-limit": { label: "到达路线半径边界", hint: "可增大最大路线半径" },
+  "climb-limit": { label: "步长内的点高差超限", hint: "可增大单步最大高差" },
+  "blocked-by-zone": { label: "被禁区阻挡", hint: "可调整禁区范围" },
+  "blocked-by-dense": { label: "被密集点阻挡", hint: "可减小绕开密集半径或密集判定半径" },
+  "reached-end": { label: "已到达指定终点", hint: "可增大点位数量上限以串起更多怪" },
+  "end-unreachable": { label: "起点无法到达指定终点", hint: "可增大最大步长或路线半径，或调整禁区" },
+  "end-beyond-max-waypoints": { label: "到达指定终点所需点位超过上限", hint: "可增大点位数量上限" },
+}
+
+const FIXED_START_ID = -1
+const FIXED_END_ID = -2
+
+const SPOT_SCAN_CANDIDATES = 12
+const IMPORT_ERROR_PREVIEW = 20
+const SPAWN_HOVER_RADIUS = 8
+
+const LAYER_COLORS = ["#ffffff", "#facc15", "#38bdf8", "#f472b6", "#a3e635", "#fb923c"]
+
+const LAYER_ROLE_LABELS: Record<SpawnLayerRole, string> = {
+  target: "路线目标",
+  hazard: "危险",
+  display: "仅显示",
+}
+
+const NEXT_LAYER_ROLE: Record<SpawnLayerRole, SpawnLayerRole> = {
+  target: "hazard",
+  hazard: "display",
+  display: "target",
+}
+
+const EXPORTER_LABELS: Record<string, string | undefined> = {
+  json: "JSON",
+  lua: "Lua 表",
+  csv: "CSV",
+  "xml-profile": "XML 刷怪配置",
+}
+
+const ROUTE_IMPORT_ERROR_LABELS: Record<RouteImportErrorReason, string> = {
+  "unrecognized-format": "无法识别的格式（支持 JSON / XML / Lua / CSV）",
+  "invalid-json": "JSON 语法错误",
+  "invalid-point": "坐标缺失或不是数字",
+}
+
+const ROUTE_IMPORT_OUTSIDE_PREVIEW = 5
+
+const PROJECT_FILTERS = [{ name: "Grinder 项目", extensions: ["json"] }]
+const AUTOSAVE_INTERVAL_MS = 60_000
+const PROJECT_INVALID_PREVIEW = 3
+
+const projectStorage = createProjectStorage()
+
+const PROJECT_LOAD_ERROR_LABELS: Record<ProjectLoadErrorReason, string> = {
+  "invalid-json": "文件不是有效的 JSON",
+  "not-a-project": "不是项目文件",
+  "newer-version": "项目文件版本比当前程序新，请升级后再打开",
+}
+
+const EXPORT_SETTING_LABELS: Record<string, string | undefined> = {
+  precision: "坐标小数位",
+  includeZ: "包含 Z",
+  routeInfo: "写入地图 id 和闭环（对象格式）",
+  variableName: "变量名",
+  header: "表头行",
+  delimiter: "分隔符（\\t 为制表符）",
+  profileName: "配置名称",
+  vendorPoint: "商人点位名称",
+  vendorNpc: "商人 NPC 名称",
+  repair: "商人可修理",
+}
+
+const DELIMITER_LABELS: Record<string, string | undefined> = {
+  ",": "逗号",
+  "\t": "制表符",
+  ";": "分号",
+  "|": "竖线",
+  " ": "空格",
+}
+
+const IMPORT_ERROR_LABELS: Record<SpawnImportErrorReason, string> = {
+  "missing-column": "表头缺少必需列",
+  "too-few-fields": "列数不足",
+  "not-a-number": "不是数字",
+  "missing-value": "缺少取值",
+  "duplicate-id": "id 重复，已忽略",
+  "syntax-error": "SQL 语法无法解析",
+  "column-mismatch": "列数与表结构不符",
+}
+
+const SPAWN_FIELD_LABELS: Record<SpawnField, string> = {
+  id: "id",
+  positionX: "x",
+  positionY: "y",
+  positionZ: "z",
+  map: "map",
+  faction: "faction",
+  levelMin: "level_min",
+  levelMax: "level_max",
+  respawnTime: "respawn",
+  entry: "entry",
+  name: "name",
+}
+
 const MIN_ZOOM = 0.05
 const MAX_ZOOM = 24
 
@@ -125,6 +298,50 @@ function levelColor(level: number) {
   return palette[index]
 }
 
+// Comma-separated terms; a numeric term matches the creature entry, any other term a part of the name.
+function parseNameQuery(query: string) {
+  return query
+    .split(/[,，]/)
+    .map((term) => term.trim().toLowerCase())
+    .filter((term) => term.length > 0)
+}
+
+// Names repeat across thousands of rows, so each distinct name of the layer is matched once up front.
+function nameQueryTester(columns: SpawnColumns, terms: string[]) {
+  const entries = terms.filter((term) => /^\d+$/.test(term)).map(Number)
+  const words = terms.filter((term) => !/^\d+$/.test(term))
+  const nameMatches = columns.names.map((name) => {
+    const lower = name.toLowerCase()
+    return words.some((word) => lower.includes(word))
+  })
+  return (row: number) => {
+    const nameIndex = columns.nameIndex[row]
+    return (nameIndex >= 0 && nameMatches[nameIndex]) || entries.includes(columns.entry[row])
+  }
+}
+
+// Key ranges are never reused, so keys saved with a project (excluded clusters) stay valid when a layer is removed.
+function nextSpawnKeyBase(layers: SpawnLayer[]) {
+  return layers.reduce((next, layer) => Math.max(next, layer.keyBase + layer.spawns.count), 0)
+}
+
+function spawnPointAt(layer: SpawnLayer, row: number): SpawnPoint {
+  return { ...spawnAt(layer.spawns, row), key: layer.keyBase + row, layer }
+}
+
+function spawnLayerOf(layers: SpawnLayer[], key: number) {
+  return layers.find((item) => key >= item.keyBase && key < item.keyBase + item.spawns.count)
+}
+
+function spawnGuidOf(layers: SpawnLayer[], key: number) {
+  const layer = spawnLayerOf(layers, key)
+  return layer ? layer.spawns.id[key - layer.keyBase] : key
+}
+
+function imageSpawnLayer(spawns: ImageSpawns, index: number) {
+  return spawns.layers[spawns.layerIndex[index]]
+}
+
 function solveLinear3x3(matrix: number[][], vector: number[]) {
   const m = matrix.map((row) => row.slice())
   const v = vector.slice()
@@ -153,6 +370,95 @@ function solveLinear3x3(matrix: number[][], vector: number[]) {
   return v
 }
 
+function TuneFrontPanel({
+  exploration,
+  scoreLabel,
+  onApply,
+}: {
+  exploration: TuneExploration
+  scoreLabel: string
+  onApply: (params: TunedAutoRouteParams) => void
+}) {
+  const { evaluations, paretoFront } = exploration
+  const width = 280
+  const height = 120
+  const pad = 8
+  const steps = evaluations.map((item) => item.params.maxStepDistance)
+  const scores = evaluations.map((item) => item.score)
+  const minStep = Math.min(...steps)
+  const maxStep = Math.max(...steps)
+  const maxScore = Math.max(1e-9, ...scores)
+  const toX = (step: number) => pad + ((step - minStep) / Math.max(1e-9, maxStep - minStep)) * (width - pad * 2)
+  const toY = (score: number) => height - pad - (score / maxScore) * (height - pad * 2)
+  const front = paretoFront
+    .map((index) => evaluations[index])
+    .sort((a, b) => a.params.maxStepDistance - b.params.maxStepDistance || b.score - a.score)
+  const fmt = (value: number) => Math.round(value)
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <p className="text-xs text-muted-foreground">
+        调参结果：共评估 {evaluations.length} 组，非劣解 {front.length} 组（横轴步长，纵轴{scoreLabel}；实心为非劣解，点击应用）。
+      </p>
+      <svg viewBox={`0 0 ${width} ${height}`} className="h-28 w-full rounded bg-muted">
+        {evaluations.map((item, index) => (
+          <circle
+            key={index}
+            cx={toX(item.params.maxStepDistance)}
+            cy={toY(item.score)}
+            r={2.5}
+            className="fill-none stroke-muted-foreground"
+          />
+        ))}
+        {front.map((item, index) => (
+          <circle
+            key={`front-${index}`}
+            cx={toX(item.params.maxStepDistance)}
+            cy={toY(item.score)}
+            r={4}
+            className="cursor-pointer fill-primary"
+            onClick={() => onApply(item.params)}
+          >
+            <title>
+              步长 {fmt(item.params.maxStepDistance)}，{scoreLabel} {fmt(item.score)}，长度 {fmt(item.travelDistance)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="max-h-40 overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">步长</th>
+              <th className="text-left font-normal">密集半径</th>
+              <th className="text-left font-normal">{scoreLabel}</th>
+              <th className="text-left font-normal">点数</th>
+              <th className="text-left font-normal">长度</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {front.map((item, index) => (
+              <tr key={index}>
+                <td>{fmt(item.params.maxStepDistance)}</td>
+                <td>{fmt(item.params.clusterRadius)}</td>
+                <td>{fmt(item.score)}</td>
+                <td>{item.picked}</td>
+                <td>{fmt(item.travelDistance)}</td>
+                <td className="text-right">
+                  <Button size="sm" variant="outline" onClick={() => onApply(item.params)}>
+                    应用
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
 function App() {
   const viewerRef = useRef<HTMLDivElement | null>(null)
   const pointsCanvasRef = useRef<HTMLCanvasElement | null>(null)
@@ -178,9 +484,17 @@ function App() {
   const [pixelB, setPixelB] = useState<PixelPoint | null>(null)
   const [worldA, setWorldA] = useState<WorldPoint>({ x: 0, y: 0 })
   const [worldB, setWorldB] = useState<WorldPoint>({ x: 100, y: 100 })
-  const [spawnPoints, setSpawnPoints] = useState<SpawnPoint[]>([])
+  const [spawnLayers, setSpawnLayers] = useState<SpawnLayer[]>([])
   const [importInfo, setImportInfo] = useState<string>("未导入")
+  const [importErrors, setImportErrors] = useState<SpawnImportError[]>([])
+  const [importErrorCount, setImportErrorCount] = useState(0)
+  const [importProgress, setImportProgress] = useState<SpawnImportJobProgress | null>(null)
+  const importAbortRef = useRef<AbortController | null>(null)
   const [levelRange, setLevelRange] = useState<[number, number]>([1, 80])
+  const [nameQuery, setNameQuery] = useState("")
+  const [nameFilterMode, setNameFilterMode] = useState<"include" | "exclude">("include")
+  const [targetMatchingOnly, setTargetMatchingOnly] = useState(false)
+  const [hoveredSpawnKey, setHoveredSpawnKey] = useState<number | null>(null)
   const [anchors, setAnchors] = useState<AnchorPoint[]>([
     { key: "A", x: 2172.0848, y: 8522.1001 },
     { key: "B", x: 4300.997, y: 1911.7805 },
@@ -190,16 +504,64 @@ function App() {
   const [redrawVersion, setRedrawVersion] = useState(0)
   const [markPoints, setMarkPoints] = useState<MarkPoint[]>([])
   const [copied, setCopied] = useState(false)
+  const [exportFormat, setExportFormat] = useState("json")
+  const [routeImportInfo, setRouteImportInfo] = useState("")
+  const [projectInfo, setProjectInfo] = useState("")
+  const [projectPath, setProjectPath] = useState<string | null>(null)
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([])
+  const [autosaveText, setAutosaveText] = useState<string | null>(null)
+  const [autosaveInfo, setAutosaveInfo] = useState("")
+  const [exportSettings, setExportSettings] = useState<Record<string, ExportSettingValues>>({})
   const [activeMarkPointId, setActiveMarkPointId] = useState<number | null>(null)
+  const [routeStartId, setRouteStartId] = useState<number | null>(null)
+  const [routeEndId, setRouteEndId] = useState<number | null>(null)
   const [autoClusterRadius, setAutoClusterRadius] = useState(80)
   const [autoMaxAreaRadius, setAutoMaxAreaRadius] = useState(1200)
   const [autoMaxStepDistance, setAutoMaxStepDistance] = useState(350)
   const [autoMaxWaypoints, setAutoMaxWaypoints] = useState(20)
   const [autoWaypointRadius, setAutoWaypointRadius] = useState(60)
   const [autoAvoidTravelRadius, setAutoAvoidTravelRadius] = useState(120)
+  // Pinned by a tuned parameter set so the route is rebuilt with the same dirty-point filter it was evaluated with.
+  const [autoDirtySupportRadius, setAutoDirtySupportRadius] = useState<number | null>(null)
   const [highlightDenseSpawns, setHighlightDenseSpawns] = useState(true)
   const [autoTuneEnabled, setAutoTuneEnabled] = useState(true)
+  const [autoClosedLoop, setAutoClosedLoop] = useState(false)
+  const [markRouteClosed, setMarkRouteClosed] = useState(false)
+  const [autoUse3D, setAutoUse3D] = useState(false)
+  const [autoVerticalWeight, setAutoVerticalWeight] = useState(1)
+  const [autoMaxClimb, setAutoMaxClimb] = useState(25)
+  const [autoPlayerLevel, setAutoPlayerLevel] = useState(0)
+  const [autoPackEnabled, setAutoPackEnabled] = useState(false)
+  const [autoCoverageEnabled, setAutoCoverageEnabled] = useState(false)
+  const [autoMinPull, setAutoMinPull] = useState(2)
+  const [autoMaxPull, setAutoMaxPull] = useState(4)
+  const [autoRouteCount, setAutoRouteCount] = useState(1)
+  const [autoRouteSeparation, setAutoRouteSeparation] = useState(200)
+  const [autoMoveSpeed, setAutoMoveSpeed] = useState(7)
+  const [autoKillTime, setAutoKillTime] = useState(15)
+  const [autoRespawnTime, setAutoRespawnTime] = useState(300)
+  const [autoTuneForXp, setAutoTuneForXp] = useState(false)
+  const [noGoZones, setNoGoZones] = useState<NoGoZone[]>([])
+  const [zoneDraft, setZoneDraft] = useState<WorldPoint[] | null>(null)
+  const [clusterOverlayEnabled, setClusterOverlayEnabled] = useState(false)
+  const [clusterEps, setClusterEps] = useState(40)
+  const [clusterMinPoints, setClusterMinPoints] = useState(4)
+  const [selectedClusterId, setSelectedClusterId] = useState<number | null>(null)
+  const [excludedSpawnIds, setExcludedSpawnIds] = useState<Set<number>>(() => new Set())
+  const [routeCenterOverride, setRouteCenterOverride] = useState<{ label: string; point: WorldPoint } | null>(null)
+  const panMovedRef = useRef(false)
+  // A project opened on another map restores its view only after the map switch has refit the viewport.
+  const pendingViewRef = useRef<LoadedWorkspace["view"] | null>(null)
   const [autoRouteInfo, setAutoRouteInfo] = useState("")
+  const [blockingDenseIds, setBlockingDenseIds] = useState<Set<number>>(() => new Set())
+  const [autoRouteProgress, setAutoRouteProgress] = useState<AutoRouteWorkerProgress | null>(null)
+  const [spotScan, setSpotScan] = useState<SpotScanResult | null>(null)
+  const [activeSpotIndex, setActiveSpotIndex] = useState<number | null>(null)
+  const [tuneResults, setTuneResults] = useState<{ exploration: TuneExploration; byXp: boolean } | null>(null)
+  const autoRouteAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => autoRouteAbortRef.current?.abort(), [])
+  useEffect(() => () => importAbortRef.current?.abort(), [])
 
   useEffect(() => {
     fetch("/tiles/meta.json")
@@ -264,13 +626,15 @@ function App() {
       const rect = viewer.getBoundingClientRect()
       const fitScale = Math.min(rect.width / currentMap.width, rect.height / currentMap.height)
       const safeBaseScale = Math.max(fitScale, 1e-6)
+      const pendingView = pendingViewRef.current?.imageKey === currentMap.key ? pendingViewRef.current : null
+      pendingViewRef.current = null
       setViewport({
         width: rect.width,
         height: rect.height,
         baseScale: safeBaseScale,
-        scale: 1,
-        offsetX: (rect.width - currentMap.width * safeBaseScale) / 2,
-        offsetY: (rect.height - currentMap.height * safeBaseScale) / 2,
+        scale: pendingView?.scale ?? 1,
+        offsetX: pendingView?.offsetX ?? (rect.width - currentMap.width * safeBaseScale) / 2,
+        offsetY: pendingView?.offsetY ?? (rect.height - currentMap.height * safeBaseScale) / 2,
       })
     }
     resize()
@@ -377,6 +741,7 @@ function App() {
     if (event.button !== 0) return
     if (event.target !== event.currentTarget) return
     event.currentTarget.setPointerCapture(event.pointerId)
+    panMovedRef.current = false
     setIsPanning(true)
     setContextMenu((prev) => ({ ...prev, open: false }))
   }
@@ -396,7 +761,16 @@ function App() {
       )
       return
     }
-    if (!isPanning) return
+    if (!isPanning) {
+      const rect = event.currentTarget.getBoundingClientRect()
+      const imagePoint = screenToImage(event.clientX - rect.left, event.clientY - rect.top)
+      const [nearest] = queryNearest(hoverIndex, imagePoint, 1, SPAWN_HOVER_RADIUS / effectiveScale)
+      setHoveredSpawnKey(
+        nearest === undefined ? null : imageSpawnLayer(imageSpawns, nearest).keyBase + imageSpawns.rows[nearest],
+      )
+      return
+    }
+    if (event.movementX !== 0 || event.movementY !== 0) panMovedRef.current = true
     setViewport((prev) => ({
       ...prev,
       offsetX: prev.offsetX + event.movementX,
@@ -464,6 +838,16 @@ function App() {
     }
   }
 
+  // The same mapping as worldToImage as plain coefficients, so loops over every spawn project without allocating.
+  const worldToImageAffine = useMemo((): AffineWorldToImage | null => {
+    if (currentAffine) return currentAffine
+    if (!calibration) return null
+    const cos = Math.cos(calibration.rotationRad) / calibration.scale
+    const sin = Math.sin(calibration.rotationRad) / calibration.scale
+    const { x, y } = calibration.translation
+    return { a: cos, b: sin, c: -(cos * x + sin * y), d: -sin, e: cos, f: sin * x - cos * y }
+  }, [currentAffine, calibration])
+
   const imageToWorld = (pixel: PixelPoint): WorldPoint | null => {
     if (currentAffine) {
       const a = currentAffine.a
@@ -503,27 +887,74 @@ function App() {
         name: `点位${prev.length + 1}`,
         center: [world.x, world.y, 0],
         radius: 60,
+        route: prev.find((point) => point.id === activeMarkPointId)?.route ?? 0,
       },
     ])
     setContextMenu((prev) => ({ ...prev, open: false }))
   }
 
+  const onViewerClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    setContextMenu((prev) => ({ ...prev, open: false }))
+    if (panMovedRef.current) return
+    if (!zoneDraft && !clustering) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const world = imageToWorld(screenToImage(event.clientX - rect.left, event.clientY - rect.top))
+    if (!world) return
+    if (zoneDraft) {
+      setZoneDraft((prev) => (prev ? [...prev, world] : prev))
+      return
+    }
+
+    // Hulls of tiny clusters are degenerate, so those are picked by distance to their centre instead.
+    const hit = clustering?.clusters.find((cluster) =>
+      cluster.hull.length >= 3
+        ? pointInPolygon(world, cluster.hull)
+        : Math.hypot(world.x - cluster.center.x, world.y - cluster.center.y) <= clusterEps,
+    )
+    setSelectedClusterId(hit?.id ?? null)
+  }
+
+  const toggleClusterExcluded = (cluster: SpawnCluster) => {
+    setExcludedSpawnIds((prev) => {
+      const next = new Set(prev)
+      const excluded = cluster.members.every((member) => prev.has(member.id))
+      for (const member of cluster.members) {
+        if (excluded) next.delete(member.id)
+        else next.add(member.id)
+      }
+      return next
+    })
+  }
+
+  const finishZoneDraft = () => {
+    if (!zoneDraft || zoneDraft.length < 3) return
+    setNoGoZones((prev) => [...prev, { id: Date.now(), name: `禁区${prev.length + 1}`, points: zoneDraft }])
+    setZoneDraft(null)
+  }
+
+  const exporter = getRouteExporter(exportFormat)
+  const exporterSettings = { ...defaultExportSettings(exporter), ...exportSettings[exporter.id] }
+  const setExporterSetting = (key: string, value: number | boolean | string) =>
+    setExportSettings((prev) => ({ ...prev, [exporter.id]: { ...prev[exporter.id], [key]: value } }))
+
   const exportedMarkPoints = useMemo(
     () =>
-      JSON.stringify(
-        markPoints.map((point) => ({
-          name: point.name,
-          center: [
-            Number(point.center[0].toFixed(4)),
-            Number(point.center[1].toFixed(4)),
-            Number(point.center[2].toFixed(4)),
-          ],
-          radius: Number(point.radius.toFixed(4)),
-        })),
-        null,
-        2,
+      exporter.render(
+        {
+          waypoints: markPoints.map((point) => ({
+            name: point.name,
+            x: point.center[0],
+            y: point.center[1],
+            z: point.center[2],
+            radius: point.radius,
+            route: point.route,
+          })),
+          closedLoop: markRouteClosed,
+          mapId: currentMapId,
+        },
+        exporterSettings,
       ),
-    [markPoints],
+    [markPoints, markRouteClosed, currentMapId, exporter, exportSettings],
   )
 
   const copyMarkPoints = async () => {
@@ -532,88 +963,588 @@ function App() {
     setTimeout(() => setCopied(false), 1200)
   }
 
-  const onImportTxt = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+  const saveMarkPoints = async () => {
+    try {
+      const path = await projectStorage.saveText(`grinder-${imageKey}.${exporter.extension}`, exportedMarkPoints, [
+        { name: EXPORTER_LABELS[exporter.id] ?? exporter.id, extensions: [exporter.extension] },
+      ])
+      if (path) setRouteImportInfo(`已导出到 ${path}。`)
+    } catch (error) {
+      setRouteImportInfo(`导出失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
 
-    const text = await file.text()
-    const lines = text
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-
-    const parsed: SpawnPoint[] = []
-    let badLines = 0
-
-    for (const line of lines) {
-      const parts = line.split(",").map((part) => part.trim())
-      if (parts.length < 8) {
-        badLines += 1
-        continue
+  const projectWorkspace = (): ProjectWorkspace => ({
+    view: { imageKey, scale: viewport.scale, offsetX: viewport.offsetX, offsetY: viewport.offsetY },
+    calibration: { pixelA, pixelB, worldA, worldB, anchors },
+    spawnLayers,
+    filters: { levelRange, nameQuery, nameFilterMode, targetMatchingOnly },
+    marks: { points: markPoints, closedLoop: markRouteClosed, startId: routeStartId, endId: routeEndId },
+    export: { format: exportFormat, settings: exportSettings },
+    autoRoute: {
+      clusterRadius: autoClusterRadius,
+      maxAreaRadius: autoMaxAreaRadius,
+      maxStepDistance: autoMaxStepDistance,
+      maxWaypoints: autoMaxWaypoints,
+      waypointRadius: autoWaypointRadius,
+      avoidTravelRadius: autoAvoidTravelRadius,
+      highlightDense: highlightDenseSpawns,
+      autoTune: autoTuneEnabled,
+      closedLoop: autoClosedLoop,
+      use3D: autoUse3D,
+      verticalWeight: autoVerticalWeight,
+      maxClimb: autoMaxClimb,
+      playerLevel: autoPlayerLevel,
+      packEnabled: autoPackEnabled,
+      coverageEnabled: autoCoverageEnabled,
+      minPull: autoMinPull,
+      maxPull: autoMaxPull,
+      routeCount: autoRouteCount,
+      routeSeparation: autoRouteSeparation,
+      moveSpeed: autoMoveSpeed,
+      killTime: autoKillTime,
+      respawnTime: autoRespawnTime,
+      tuneForXp: autoTuneForXp,
+    },
+    noGoZones,
+    clusters: {
+      overlayEnabled: clusterOverlayEnabled,
+      eps: clusterEps,
+      minPoints: clusterMinPoints,
+      excludedSpawnIds: [...excludedSpawnIds],
+      routeCenterOverride,
+    },
+  })
+
+  const rememberRecentProject = (path: string) => {
+    if (!projectStorage.native) return
+    const next = addRecentProject(recentProjects, path)
+    setRecentProjects(next)
+    projectStorage.writeRecent(next).catch(() => undefined)
+  }
+
+  const saveProject = async (saveAs: boolean) => {
+    try {
+      const path = await projectStorage.saveText(
+        `grinder-${imageKey}.project.json`,
+        await serializeProjectInWorker(projectWorkspace()),
+        PROJECT_FILTERS,
+        saveAs ? null : projectPath,
+      )
+      if (!path) return
+      if (projectStorage.native) setProjectPath(path)
+      rememberRecentProject(path)
+      setProjectInfo(`已保存项目到 ${path}（${spawnLayers.length} 个图层，${markPoints.length} 个点位）。`)
+    } catch (error) {
+      setProjectInfo(`保存项目失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // Fields that were missing or invalid in the file come back undefined and keep their current value.
+  const applyProjectWorkspace = (workspace: LoadedWorkspace) => {
+    const { view, calibration: savedCalibration, filters, marks, autoRoute, clusters } = workspace
+    const restore = <T,>(value: T | undefined, set: (value: T) => void) => {
+      if (value !== undefined) set(value)
+    }
+    if (view) {
+      const viewKey = view.imageKey ?? imageKey
+      if (viewKey === currentMap?.key) {
+        setViewport((prev) => ({
+          ...prev,
+          scale: view.scale ?? prev.scale,
+          offsetX: view.offsetX ?? prev.offsetX,
+          offsetY: view.offsetY ?? prev.offsetY,
+        }))
+      } else {
+        pendingViewRef.current = { ...view, imageKey: viewKey }
+        setImageKey(viewKey)
+      }
+    }
+    if (savedCalibration) {
+      restore(savedCalibration.pixelA, setPixelA)
+      restore(savedCalibration.pixelB, setPixelB)
+      restore(savedCalibration.worldA, setWorldA)
+      restore(savedCalibration.worldB, setWorldB)
+      restore(savedCalibration.anchors, setAnchors)
+    }
+    if (workspace.spawnLayers) {
+      const layers = workspace.spawnLayers
+      // Layers saved before spawn keys existed get fresh ranges after the saved ones.
+      let keyBase = nextSpawnKeyBase(layers.filter((layer): layer is SpawnLayer => layer.keyBase !== undefined))
+      setSpawnLayers(
+        layers.map((layer) => {
+          if (layer.keyBase !== undefined) return { ...layer, keyBase: layer.keyBase }
+          keyBase += layer.spawns.count
+          return { ...layer, keyBase: keyBase - layer.spawns.count }
+        }),
+      )
+    }
+    if (filters) {
+      restore(filters.levelRange, setLevelRange)
+      restore(filters.nameQuery, setNameQuery)
+      restore(filters.nameFilterMode, setNameFilterMode)
+      restore(filters.targetMatchingOnly, setTargetMatchingOnly)
+    }
+    if (marks) {
+      restore(marks.points, (points) => {
+        setMarkPoints(points)
+        setActiveMarkPointId(points[0]?.id ?? null)
+      })
+      restore(marks.closedLoop, setMarkRouteClosed)
+      restore(marks.startId, setRouteStartId)
+      restore(marks.endId, setRouteEndId)
+    }
+    if (workspace.export) {
+      restore(workspace.export.format, setExportFormat)
+      restore(workspace.export.settings, setExportSettings)
+    }
+    if (autoRoute) {
+      setAutoDirtySupportRadius(null)
+      restore(autoRoute.clusterRadius, setAutoClusterRadius)
+      restore(autoRoute.maxAreaRadius, setAutoMaxAreaRadius)
+      restore(autoRoute.maxStepDistance, setAutoMaxStepDistance)
+      restore(autoRoute.maxWaypoints, setAutoMaxWaypoints)
+      restore(autoRoute.waypointRadius, setAutoWaypointRadius)
+      restore(autoRoute.avoidTravelRadius, setAutoAvoidTravelRadius)
+      restore(autoRoute.highlightDense, setHighlightDenseSpawns)
+      restore(autoRoute.autoTune, setAutoTuneEnabled)
+      restore(autoRoute.closedLoop, setAutoClosedLoop)
+      restore(autoRoute.use3D, setAutoUse3D)
+      restore(autoRoute.verticalWeight, setAutoVerticalWeight)
+      restore(autoRoute.maxClimb, setAutoMaxClimb)
+      restore(autoRoute.playerLevel, setAutoPlayerLevel)
+      restore(autoRoute.packEnabled, setAutoPackEnabled)
+      restore(autoRoute.coverageEnabled, setAutoCoverageEnabled)
+      restore(autoRoute.minPull, setAutoMinPull)
+      restore(autoRoute.maxPull, setAutoMaxPull)
+      restore(autoRoute.routeCount, setAutoRouteCount)
+      restore(autoRoute.routeSeparation, setAutoRouteSeparation)
+      restore(autoRoute.moveSpeed, setAutoMoveSpeed)
+      restore(autoRoute.killTime, setAutoKillTime)
+      restore(autoRoute.respawnTime, setAutoRespawnTime)
+      restore(autoRoute.tuneForXp, setAutoTuneForXp)
+    }
+    restore(workspace.noGoZones, setNoGoZones)
+    if (clusters) {
+      restore(clusters.overlayEnabled, setClusterOverlayEnabled)
+      restore(clusters.eps, setClusterEps)
+      restore(clusters.minPoints, setClusterMinPoints)
+      restore(clusters.excludedSpawnIds, (ids) => setExcludedSpawnIds(new Set(ids)))
+      restore(clusters.routeCenterOverride, setRouteCenterOverride)
+    }
+
+    // Results of the previous session's searches do not carry over.
+    setZoneDraft(null)
+    setSelectedClusterId(null)
+    setBlockingDenseIds(new Set())
+    setSpotScan(null)
+    setActiveSpotIndex(null)
+    setTuneResults(null)
+    setAutoRouteInfo("")
+    setImportErrors([])
+    setImportErrorCount(0)
+    setImportInfo(workspace.spawnLayers ? `已从项目载入 ${workspace.spawnLayers.length} 个图层` : "未导入")
+  }
+
+  const loadProjectText = async (name: string, text: string) => {
+    const result = await parseProjectInWorker(text)
+    if (!result.ok) {
+      setProjectInfo(`无法打开：${PROJECT_LOAD_ERROR_LABELS[result.reason]}。`)
+      return false
+    }
+    applyProjectWorkspace(result.workspace)
+    const notes = [
+      result.migrated ? `已打开 ${name}（由版本 ${result.version} 升级，仅恢复文件中包含的部分）` : `已打开 ${name}`,
+    ]
+    if (result.invalid.length > 0) {
+      const paths = result.invalid.slice(0, PROJECT_INVALID_PREVIEW).join("、")
+      notes.push(
+        `${result.invalid.length} 处内容无效，已保留当前值：${paths}${result.invalid.length > PROJECT_INVALID_PREVIEW ? " 等" : ""}`,
+      )
+    }
+    setProjectInfo(`${notes.join("；")}。`)
+    return true
+  }
+
+  const openProject = async (path?: string) => {
+    try {
+      const file = path ? await projectStorage.readPath(path) : await projectStorage.openText(PROJECT_FILTERS)
+      if (!file || !(await loadProjectText(file.name, file.text))) return
+      setProjectPath(file.path)
+      if (file.path) rememberRecentProject(file.path)
+    } catch (error) {
+      setProjectInfo(`打开项目失败：${error instanceof Error ? error.message : String(error)}`)
+      // Only a recent entry whose file has been moved or deleted is dropped; a file that exists but could not be read
+      // (permissions, a locked drive) stays in the list. When even the check fails, the entry is kept.
+      if (path && !(await projectStorage.exists(path).catch(() => true))) {
+        const next = recentProjects.filter((item) => item.path !== path)
+        setRecentProjects(next)
+        projectStorage.writeRecent(next).catch(() => undefined)
       }
+    }
+  }
 
-      const values = parts.slice(0, 8).map((part) => Number(part))
-      if (values.some((value) => Number.isNaN(value))) {
-        badLines += 1
-        continue
+  const restoreAutosave = async () => {
+    const text = autosaveText
+    setAutosaveText(null)
+    try {
+      if (text && (await loadProjectText("自动保存", text))) setProjectPath(null)
+    } catch (error) {
+      setProjectInfo(`恢复自动保存失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // The autosave timer reads the workspace through a ref so it always sees the latest state without restarting.
+  const projectWorkspaceRef = useRef(projectWorkspace)
+  projectWorkspaceRef.current = projectWorkspace
+  const lastAutosavedRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    projectStorage
+      .readAutosave()
+      .then(async (text) => {
+        if (!cancelled && text && (await parseProjectInWorker(text)).ok) setAutosaveText(text)
+      })
+      .catch(() => undefined)
+    projectStorage
+      .readRecent()
+      .then((projects) => {
+        if (!cancelled) setRecentProjects(projects)
+      })
+      .catch(() => undefined)
+
+    // Spawn layers stay out of autosave: they can hold millions of rows and come back by re-importing or opening the
+    // project file. Panning and zooming alone do not count as a change.
+    const timer = window.setInterval(() => {
+      const { view, spawnLayers: _spawnLayers, ...tracked } = projectWorkspaceRef.current()
+      const snapshot = JSON.stringify(tracked)
+      // The first tick only records the untouched workspace, so an empty session never overwrites the last autosave.
+      if (lastAutosavedRef.current === null || lastAutosavedRef.current === snapshot) {
+        lastAutosavedRef.current = snapshot
+        return
       }
+      lastAutosavedRef.current = snapshot
+      projectStorage
+        .writeAutosave(serializeProject({ view, ...tracked }))
+        .then(() => setAutosaveInfo(`已自动保存 ${new Date().toLocaleTimeString()}`))
+        .catch((error: unknown) =>
+          setAutosaveInfo(`自动保存失败：${error instanceof Error ? error.message : String(error)}`),
+        )
+    }, AUTOSAVE_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [])
+
+  const onImportRoute = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    event.target.value = ""
+
+    const result = parseRouteText(text)
+    if (result.waypoints.length === 0) {
+      const reason = result.errors[0]?.reason ?? "invalid-point"
+      setRouteImportInfo(`未导入：${ROUTE_IMPORT_ERROR_LABELS[reason]}。`)
+      return
+    }
+
+    const createdAt = Date.now()
+    const nextMarks: MarkPoint[] = result.waypoints.map((point, index) => ({
+      id: createdAt + index,
+      name: point.name || `点位${index + 1}`,
+      center: [point.x, point.y, point.z],
+      radius: point.radius,
+      route: point.route,
+    }))
+    setMarkPoints(nextMarks)
+    if (result.closedLoop !== undefined) setMarkRouteClosed(result.closedLoop)
+    setActiveMarkPointId(nextMarks[0]?.id ?? null)
+    setRouteStartId(null)
+    setRouteEndId(null)
+    setBlockingDenseIds(new Set())
+    // The profile's vendor goes back into the XML export settings, so exporting again writes the same vendor stop.
+    const vendor = result.vendor
+    if (vendor) {
+      setExportSettings((prev) => ({
+        ...prev,
+        "xml-profile": {
+          ...prev["xml-profile"],
+          vendorPoint: vendor.point,
+          vendorNpc: vendor.npc === vendor.point ? "" : vendor.npc,
+        },
+      }))
+    }
 
-      parsed.push({
-        id: values[0],
-        positionX: values[1],
-        positionY: values[2],
-        positionZ: values[3],
-        map: values[4],
-        faction: values[5],
-        levelMin: values[6],
-        levelMax: values[7],
+    // Imported coordinates are world positions; projecting them shows whether they belong to the map on screen.
+    const notes = [`已导入 ${nextMarks.length} 个点位（${result.format?.toUpperCase()}）`]
+    if (vendor) notes.push(`商人点位为「${vendor.point}」${vendor.npc ? `（NPC：${vendor.npc}）` : ""}`)
+    const skipped = result.errors.filter((error) => error.reason === "invalid-point").length
+    if (skipped > 0) notes.push(`跳过 ${skipped} 个${ROUTE_IMPORT_ERROR_LABELS["invalid-point"]}的点`)
+    if (result.mapId !== undefined && currentMapId !== undefined && result.mapId !== currentMapId) {
+      notes.push(`文件地图 id=${result.mapId} 与当前地图 id=${currentMapId} 不一致`)
+    }
+    if (!currentMap || (!calibration && !currentAffine)) {
+      notes.push("尚未完成标定，无法校验坐标是否在地图内")
+    } else {
+      const outside = nextMarks.filter((mark) => {
+        const image = worldToImage({ x: mark.center[0], y: mark.center[1] })
+        return !image || image.x < 0 || image.y < 0 || image.x > currentMap.width || image.y > currentMap.height
       })
+      if (outside.length > 0) {
+        const names = outside.slice(0, ROUTE_IMPORT_OUTSIDE_PREVIEW).map((mark) => mark.name).join("、")
+        notes.push(
+          `${outside.length} 个点位落在地图图片之外：${names}${outside.length > ROUTE_IMPORT_OUTSIDE_PREVIEW ? " 等" : ""}`,
+        )
+      }
     }
+    setRouteImportInfo(`${notes.join("；")}。`)
+  }
 
-    setSpawnPoints(parsed)
-    setImportInfo(`已导入 ${parsed.length} 条${badLines > 0 ? `，跳过 ${badLines} 条坏数据` : ""}`)
+  // Parsing runs in a worker that streams the files into typed columns, so full-world dumps neither block nor exhaust
+  // the page. Each text file becomes its own layer; SQL files are joined into one.
+  const onImportTxt = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    if (files.length === 0) return
     event.target.value = ""
+
+    importAbortRef.current?.abort()
+    const controller = new AbortController()
+    importAbortRef.current = controller
+    setImportProgress({ stage: "read", progress: 0, rows: 0 })
+
+    let results: Awaited<ReturnType<typeof importSpawnFilesInWorker>>
+    try {
+      results = await importSpawnFilesInWorker(files, { signal: controller.signal, onProgress: setImportProgress })
+    } catch (error) {
+      setImportInfo(
+        controller.signal.aborted ? "已取消导入。" : `导入失败：${error instanceof Error ? error.message : String(error)}`,
+      )
+      return
+    } finally {
+      if (importAbortRef.current === controller) {
+        importAbortRef.current = null
+        setImportProgress(null)
+      }
+    }
+
+    const createdAt = Date.now()
+    setSpawnLayers((prev) => {
+      const next = [...prev]
+      for (const [index, result] of results.entries()) {
+        next.push({
+          id: createdAt + index,
+          name: result.name,
+          color: LAYER_COLORS[next.length % LAYER_COLORS.length],
+          visible: true,
+          role: "target",
+          keyBase: nextSpawnKeyBase(next),
+          spawns: result.columns,
+        })
+      }
+      return next
+    })
+    setImportErrors(results.flatMap((result) => result.errors))
+    setImportErrorCount(results.reduce((sum, result) => sum + result.errorCount, 0))
+
+    const loaded = spawnLayers.map((layer) => layer.spawns)
+    const notes = results.map((result) => {
+      const overlaps = countSpawnOverlaps(loaded, result.columns)
+      loaded.push(result.columns)
+      const skipped =
+        (result.errorCount > 0 ? `，跳过 ${result.errorCount} 条坏数据` : "") +
+        (overlaps.duplicates > 0 ? `，${overlaps.duplicates} 条与已有图层是同一点位（guid 与坐标相同，按靠前的图层计）` : "") +
+        (overlaps.sharedIds > 0 ? `，${overlaps.sharedIds} 条 guid 与已有图层相同但坐标不同，按独立点位保留` : "")
+      const prefix = results.length > 1 ? `${result.name}：` : ""
+      if (result.kind === "sql") {
+        return (
+          `${prefix}已从 SQL 导入 ${result.columns.count} 条（creature ${result.creatureRows} 行，creature_template ${result.templateRows} 行）` +
+          (result.missingTemplates > 0 ? `，${result.missingTemplates} 条缺少模板（等级记为 0）` : "") +
+          skipped
+        )
+      }
+      const delimiterLabel = DELIMITER_LABELS[result.delimiter] ?? result.delimiter
+      return `${prefix}已导入 ${result.columns.count} 条（${delimiterLabel}分隔，${result.header ? "按表头映射列" : "按列顺序"}）${skipped}`
+    })
+    setImportInfo(notes.join("；"))
   }
 
-  const filteredSpawns = useMemo(() => {
-    if (currentMapId === undefined) return []
-    return spawnPoints
-      .filter((spawn) => spawn.map === currentMapId)
-      .filter((spawn) => spawn.levelMax >= levelRange[0] && spawn.levelMin <= levelRange[1])
-  }, [spawnPoints, currentMapId, levelRange])
-
-  const imageSpawns = useMemo(() => {
-    if (!currentMap || (!calibration && !currentAffine)) return []
-    return filteredSpawns
-      .map((spawn) => {
-        const imagePoint = worldToImage({ x: spawn.positionX, y: spawn.positionY })
-        if (!imagePoint) return null
-        if (imagePoint.x < 0 || imagePoint.y < 0 || imagePoint.x > currentMap.width || imagePoint.y > currentMap.height) {
-          return null
+  const nameTerms = useMemo(() => parseNameQuery(nameQuery), [nameQuery])
+  // In target mode the name filter picks the route's prey instead of hiding spawns, so the rest stay on the map as hazards.
+  const isNameTarget = useMemo(() => {
+    const include = nameFilterMode === "include"
+    const testers = new Map(spawnLayers.map((layer) => [layer, nameQueryTester(layer.spawns, nameTerms)]))
+    return (layer: SpawnLayer, row: number) => (testers.get(layer)?.(row) ?? false) === include
+  }, [spawnLayers, nameTerms, nameFilterMode])
+
+  // Layers stay columnar; only the current map's rows are picked out here. Visible layers stack in list order; a row
+  // that repeats a spawn an earlier layer already loaded (same guid and position) keeps that layer's copy only.
+  const { mapRows, duplicateSpawnCount } = useMemo(() => {
+    const firstById = new Map<number, { columns: SpawnColumns; row: number }>()
+    const mapRows: { layer: SpawnLayer; rows: Uint32Array }[] = []
+    let duplicateSpawnCount = 0
+    if (currentMapId === undefined) return { mapRows, duplicateSpawnCount }
+    for (const layer of spawnLayers) {
+      if (!layer.visible) continue
+      const columns = layer.spawns
+      const rows = new Uint32Array(columns.count)
+      let count = 0
+      for (let row = 0; row < columns.count; row += 1) {
+        if (columns.map[row] !== currentMapId) continue
+        const first = firstById.get(columns.id[row])
+        if (!first) firstById.set(columns.id[row], { columns, row })
+        else if (sameSpawnAt(first.columns, first.row, columns, row)) {
+          duplicateSpawnCount += 1
+          continue
         }
-        const level = Math.round((spawn.levelMin + spawn.levelMax) / 2)
-        return { spawn, imageX: imagePoint.x, imageY: imagePoint.y, level }
-      })
-      .filter((item): item is { spawn: SpawnPoint; imageX: number; imageY: number; level: number } => item !== null)
-  }, [filteredSpawns, currentMap, calibration, currentAffine, redrawVersion])
+        rows[count] = row
+        count += 1
+      }
+      mapRows.push({ layer, rows: rows.slice(0, count) })
+    }
+    return { mapRows, duplicateSpawnCount }
+  }, [spawnLayers, currentMapId])
+
+  // Level and name filters only narrow target layers; hazards and overlays stay whatever their level.
+  // Filtering reads the columns and keeps row numbers, so no spawn becomes an object here.
+  const filteredRows = useMemo(() => {
+    const byName = nameTerms.length > 0 && !targetMatchingOnly
+    return mapRows.map(({ layer, rows }) => {
+      if (layer.role !== "target") return { layer, rows }
+      const { levelMin, levelMax } = layer.spawns
+      const kept = new Uint32Array(rows.length)
+      let count = 0
+      for (const row of rows) {
+        if (levelMax[row] < levelRange[0] || levelMin[row] > levelRange[1]) continue
+        if (byName && !isNameTarget(layer, row)) continue
+        kept[count] = row
+        count += 1
+      }
+      return { layer, rows: kept.slice(0, count) }
+    })
+  }, [mapRows, levelRange, nameTerms, targetMatchingOnly, isNameTarget])
+
+  const spawnNames = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const { layer, rows } of mapRows) {
+      const { nameIndex, names } = layer.spawns
+      for (const row of rows) {
+        if (nameIndex[row] < 0) continue
+        const name = names[nameIndex[row]]
+        counts.set(name, (counts.get(name) ?? 0) + 1)
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  }, [mapRows])
+
+  // Projected once per filter or calibration change; panning and zooming only rescale these image positions.
+  const imageSpawns = useMemo((): ImageSpawns => {
+    const total = currentMap && worldToImageAffine ? filteredRows.reduce((sum, { rows }) => sum + rows.length, 0) : 0
+    const spawns: ImageSpawns = {
+      count: 0,
+      layers: filteredRows.map(({ layer }) => layer),
+      layerIndex: new Uint32Array(total),
+      rows: new Uint32Array(total),
+      imageX: new Float64Array(total),
+      imageY: new Float64Array(total),
+    }
+    if (!currentMap || !worldToImageAffine) return spawns
+    const { a, b, c, d, e, f } = worldToImageAffine
+    for (const [layerIndex, { layer, rows }] of filteredRows.entries()) {
+      const { positionX, positionY } = layer.spawns
+      for (const row of rows) {
+        const x = a * positionX[row] + b * positionY[row] + c
+        const y = d * positionX[row] + e * positionY[row] + f
+        if (!(x >= 0 && y >= 0 && x <= currentMap.width && y <= currentMap.height)) continue
+        spawns.layerIndex[spawns.count] = layerIndex
+        spawns.rows[spawns.count] = row
+        spawns.imageX[spawns.count] = x
+        spawns.imageY[spawns.count] = y
+        spawns.count += 1
+      }
+    }
+    return spawns
+  }, [filteredRows, currentMap, worldToImageAffine, redrawVersion])
 
-  const routePoints = useMemo<SpawnXYZ[]>(
+  // A spawn the filters just hid must not keep its tooltip until the pointer moves.
+  useEffect(() => setHoveredSpawnKey(null), [imageSpawns])
+
+  // Indexed in image pixels, so panning and zooming reuse it; the hover radius is scaled to the zoom instead.
+  const hoverIndex = useMemo(
     () =>
-      imageSpawns.map(({ spawn }) => ({
-        id: spawn.id,
-        x: spawn.positionX,
-        y: spawn.positionY,
-        z: spawn.positionZ,
-      })),
+      createSpatialIndex(
+        Array.from({ length: imageSpawns.count }, (_, index) => index),
+        SPAWN_HOVER_RADIUS * 2,
+        (index) => ({ x: imageSpawns.imageX[index], y: imageSpawns.imageY[index] }),
+      ),
     [imageSpawns],
   )
 
+  // The routing code takes one SpawnXYZ per spawn; these are the only per-spawn objects, and they are rebuilt with
+  // the filters rather than on every pan or zoom.
+  const routePoints = useMemo(() => {
+    const points: SpawnXYZ[] = []
+    for (let index = 0; index < imageSpawns.count; index += 1) {
+      const layer = imageSpawnLayer(imageSpawns, index)
+      if (layer.role === "display") continue
+      const row = imageSpawns.rows[index]
+      const { positionX, positionY, positionZ, levelMin, levelMax, respawnTime } = layer.spawns
+      points.push({
+        id: layer.keyBase + row,
+        x: positionX[row],
+        y: positionY[row],
+        z: positionZ[row],
+        level: levelMax[row],
+        levelMin: levelMin[row],
+        respawnTime: respawnTime[row] > 0 ? respawnTime[row] : undefined,
+      })
+    }
+    return points
+  }, [imageSpawns])
+
+  const routeVerticalWeight = autoUse3D ? autoVerticalWeight : 0
+
+  const clustering = useMemo(
+    () =>
+      clusterOverlayEnabled
+        ? dbscan(routePoints, { eps: clusterEps, minPoints: clusterMinPoints, verticalWeight: routeVerticalWeight })
+        : null,
+    [clusterOverlayEnabled, routePoints, clusterEps, clusterMinPoints, routeVerticalWeight],
+  )
+  const selectedCluster = clustering?.clusters.find((cluster) => cluster.id === selectedClusterId) ?? null
+  const packPolicy = useMemo<PackPolicy | undefined>(
+    () => (autoPackEnabled ? { minPull: autoMinPull, maxPull: autoMaxPull } : undefined),
+    [autoPackEnabled, autoMinPull, autoMaxPull],
+  )
+  const routeDenseThreshold = denseThreshold({ packPolicy })
+
+  const hazardIds = useMemo(() => {
+    const ids = new Set<number>()
+    const byName = targetMatchingOnly && nameTerms.length > 0
+    for (let index = 0; index < imageSpawns.count; index += 1) {
+      const layer = imageSpawnLayer(imageSpawns, index)
+      const row = imageSpawns.rows[index]
+      if (layer.role === "hazard" || (layer.role === "target" && byName && !isNameTarget(layer, row))) {
+        ids.add(layer.keyBase + row)
+      }
+    }
+    return ids
+  }, [imageSpawns, isNameTarget, targetMatchingOnly, nameTerms])
+
+  // Excluded clusters stay in the route points, so they still count toward density and are avoided like hazards.
+  const routeHazardIds = useMemo(
+    () => (excludedSpawnIds.size > 0 ? new Set([...hazardIds, ...excludedSpawnIds]) : hazardIds),
+    [hazardIds, excludedSpawnIds],
+  )
+
   const densityInfo = useMemo(() => {
-    const counts = computeNeighborCounts(routePoints, autoClusterRadius)
+    const counts = computeNeighborCounts(routePoints, autoClusterRadius, routeVerticalWeight)
     const denseIds = new Set<number>()
     for (const point of routePoints) {
       const count = counts.get(point.id) ?? 1
-      if (count >= 3) denseIds.add(point.id)
+      if (count >= routeDenseThreshold || routeHazardIds.has(point.id)) denseIds.add(point.id)
     }
     return {
       points: routePoints,
@@ -622,36 +1553,7 @@ function App() {
       denseCount: denseIds.size,
       total: routePoints.length,
     }
-  }, [routePoints, autoClusterRadius])
-
-  const projectedSpawns = useMemo<(ProjectedSpawn & { isDense: boolean })[]>(() => {
-    if (!currentMap || (!calibration && !currentAffine)) return []
-    if (currentMapId === undefined) return []
-
-    return imageSpawns.map(({ spawn, imageX, imageY, level }) => {
-      const isDense = densityInfo.denseIds.has(spawn.id)
-      const baseColor = levelColor(level)
-      return {
-        ...spawn,
-        screenX: viewport.offsetX + imageX * effectiveScale,
-        screenY: viewport.offsetY + imageY * effectiveScale,
-        isDense,
-        color: highlightDenseSpawns && isDense ? "rgba(239,68,68,0.85)" : baseColor,
-      }
-    })
-  }, [
-    imageSpawns,
-    calibration,
-    currentAffine,
-    currentMap,
-    currentMapId,
-    viewport.offsetX,
-    viewport.offsetY,
-    effectiveScale,
-    densityInfo.denseIds,
-    highlightDenseSpawns,
-    redrawVersion,
-  ])
+  }, [routePoints, autoClusterRadius, routeVerticalWeight, routeDenseThreshold, routeHazardIds])
 
   const projectedMarkPoints = useMemo(() => {
     return markPoints
@@ -667,6 +1569,53 @@ function App() {
       .filter((item): item is ProjectedMarkPoint => item !== null)
   }, [markPoints, viewport.offsetX, viewport.offsetY, effectiveScale, currentAffine, calibration])
 
+  const projectedNoGoZones = useMemo(() => {
+    const project = (points: WorldPoint[]) => {
+      const screenPoints: PixelPoint[] = []
+      for (const point of points) {
+        const imagePoint = worldToImage(point)
+        if (!imagePoint) return null
+        screenPoints.push({
+          x: viewport.offsetX + imagePoint.x * effectiveScale,
+          y: viewport.offsetY + imagePoint.y * effectiveScale,
+        })
+      }
+      return screenPoints
+    }
+
+    const zones = noGoZones
+      .map((zone) => {
+        const screenPoints = project(zone.points)
+        return screenPoints ? { id: zone.id, name: zone.name, screenPoints } : null
+      })
+      .filter((item): item is ProjectedNoGoZone => item !== null)
+    const draft = zoneDraft ? project(zoneDraft) : null
+    return { zones, draft }
+  }, [noGoZones, zoneDraft, viewport.offsetX, viewport.offsetY, effectiveScale, currentAffine, calibration])
+
+  const projectedClusters = useMemo(() => {
+    if (!clustering) return []
+    const project = (point: WorldPoint) => {
+      const imagePoint = worldToImage(point)
+      if (!imagePoint) return null
+      return { x: viewport.offsetX + imagePoint.x * effectiveScale, y: viewport.offsetY + imagePoint.y * effectiveScale }
+    }
+
+    return clustering.clusters
+      .map((cluster) => {
+        const screenCenter = project(cluster.center)
+        const screenHull = cluster.hull.map(project)
+        if (!screenCenter || screenHull.some((point) => point === null)) return null
+        return {
+          ...cluster,
+          screenHull: screenHull as PixelPoint[],
+          screenCenter,
+          excluded: cluster.members.every((member) => excludedSpawnIds.has(member.id)),
+        }
+      })
+      .filter((item): item is ProjectedCluster => item !== null)
+  }, [clustering, excludedSpawnIds, viewport.offsetX, viewport.offsetY, effectiveScale, currentAffine, calibration])
+
   useEffect(() => {
     const canvas = pointsCanvasRef.current
     if (!canvas) return
@@ -680,25 +1629,116 @@ function App() {
     if (!ctx) return
     ctx.clearRect(0, 0, width, height)
 
-    if (projectedMarkPoints.length >= 2) {
+    if (projectedNoGoZones.zones.length > 0 || projectedNoGoZones.draft) {
+      ctx.save()
+      ctx.lineWidth = 2
+      ctx.strokeStyle = "rgba(239,68,68,0.9)"
+      ctx.fillStyle = "rgba(239,68,68,0.18)"
+      ctx.font = "12px sans-serif"
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      for (const zone of projectedNoGoZones.zones) {
+        ctx.beginPath()
+        ctx.moveTo(zone.screenPoints[0].x, zone.screenPoints[0].y)
+        for (const point of zone.screenPoints.slice(1)) ctx.lineTo(point.x, point.y)
+        ctx.closePath()
+        ctx.fill()
+        ctx.stroke()
+
+        const labelX = zone.screenPoints.reduce((sum, point) => sum + point.x, 0) / zone.screenPoints.length
+        const labelY = zone.screenPoints.reduce((sum, point) => sum + point.y, 0) / zone.screenPoints.length
+        ctx.fillStyle = "#ffffff"
+        ctx.fillText(zone.name, labelX, labelY)
+        ctx.fillStyle = "rgba(239,68,68,0.18)"
+      }
+
+      const draft = projectedNoGoZones.draft
+      if (draft && draft.length > 0) {
+        ctx.setLineDash([6, 4])
+        ctx.beginPath()
+        ctx.moveTo(draft[0].x, draft[0].y)
+        for (const point of draft.slice(1)) ctx.lineTo(point.x, point.y)
+        ctx.stroke()
+        ctx.setLineDash([])
+        ctx.fillStyle = "rgba(239,68,68,0.9)"
+        for (const point of draft) {
+          ctx.beginPath()
+          ctx.arc(point.x, point.y, 3, 0, Math.PI * 2)
+          ctx.fill()
+        }
+      }
+      ctx.restore()
+    }
+
+    if (projectedClusters.length > 0) {
+      ctx.save()
+      ctx.font = "11px sans-serif"
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      for (const cluster of projectedClusters) {
+        const selected = cluster.id === selectedClusterId
+        const color = cluster.excluded ? "148,163,184" : "168,85,247"
+        ctx.strokeStyle = `rgba(${color},${selected ? 1 : 0.8})`
+        ctx.fillStyle = `rgba(${color},${selected ? 0.25 : 0.12})`
+        ctx.lineWidth = selected ? 2.5 : 1.5
+        ctx.beginPath()
+        if (cluster.screenHull.length >= 3) {
+          ctx.moveTo(cluster.screenHull[0].x, cluster.screenHull[0].y)
+          for (const point of cluster.screenHull.slice(1)) ctx.lineTo(point.x, point.y)
+          ctx.closePath()
+        } else {
+          ctx.arc(cluster.screenCenter.x, cluster.screenCenter.y, 8, 0, Math.PI * 2)
+        }
+        ctx.fill()
+        ctx.stroke()
+
+        const levelText =
+          cluster.levelMin === undefined
+            ? ""
+            : cluster.levelMin === cluster.levelMax
+              ? ` Lv${cluster.levelMin}`
+              : ` Lv${cluster.levelMin}-${cluster.levelMax}`
+        const label = `#${cluster.id} ${cluster.members.length}只${levelText}${cluster.excluded ? " 已排除" : ""}`
+        ctx.strokeStyle = "rgba(0,0,0,0.75)"
+        ctx.lineWidth = 3
+        ctx.strokeText(label, cluster.screenCenter.x, cluster.screenCenter.y)
+        ctx.fillStyle = "#ffffff"
+        ctx.fillText(label, cluster.screenCenter.x, cluster.screenCenter.y)
+      }
+      ctx.restore()
+    }
+
+    const routeGroups = new Map<number, ProjectedMarkPoint[]>()
+    for (const point of projectedMarkPoints) {
+      const group = routeGroups.get(point.route)
+      if (group) group.push(point)
+      else routeGroups.set(point.route, [point])
+    }
+
+    for (const [route, group] of routeGroups) {
+      if (group.length < 2) continue
+      const drawClosingEdge = markRouteClosed && group.length >= 3
+      const color = ROUTE_COLORS[route % ROUTE_COLORS.length]
       ctx.save()
-      ctx.strokeStyle = "rgba(34,211,238,0.9)"
-      ctx.fillStyle = "rgba(34,211,238,0.9)"
+      ctx.strokeStyle = color
+      ctx.fillStyle = color
       ctx.lineWidth = 3
       ctx.setLineDash([10, 8])
       ctx.beginPath()
-      ctx.moveTo(projectedMarkPoints[0].screenX, projectedMarkPoints[0].screenY)
-      for (let index = 1; index < projectedMarkPoints.length; index += 1) {
-        ctx.lineTo(projectedMarkPoints[index].screenX, projectedMarkPoints[index].screenY)
+      ctx.moveTo(group[0].screenX, group[0].screenY)
+      for (let index = 1; index < group.length; index += 1) {
+        ctx.lineTo(group[index].screenX, group[index].screenY)
       }
+      if (drawClosingEdge) ctx.closePath()
       ctx.stroke()
       ctx.setLineDash([])
 
       const headLength = 10
       const headAngle = Math.PI / 7
-      for (let index = 0; index + 1 < projectedMarkPoints.length; index += 1) {
-        const from = projectedMarkPoints[index]
-        const to = projectedMarkPoints[index + 1]
+      const edgeCount = drawClosingEdge ? group.length : group.length - 1
+      for (let index = 0; index < edgeCount; index += 1) {
+        const from = group[index]
+        const to = group[(index + 1) % group.length]
         const angle = Math.atan2(to.screenY - from.screenY, to.screenX - from.screenX)
         ctx.beginPath()
         ctx.moveTo(to.screenX, to.screenY)
@@ -717,7 +1757,7 @@ function App() {
       ctx.restore()
     }
 
-    if (projectedSpawns.length === 0) return
+    if (imageSpawns.count === 0) return
 
     const radius = 4
     ctx.strokeStyle = "#ffffff"
@@ -726,29 +1766,96 @@ function App() {
     ctx.textAlign = "center"
     ctx.textBaseline = "middle"
 
-    for (const spawn of projectedSpawns) {
-      if (spawn.screenX < -10 || spawn.screenY < -10 || spawn.screenX > width + 10 || spawn.screenY > height + 10) {
-        continue
-      }
-      ctx.fillStyle = spawn.color
+    for (let index = 0; index < imageSpawns.count; index += 1) {
+      const screenX = viewport.offsetX + imageSpawns.imageX[index] * effectiveScale
+      const screenY = viewport.offsetY + imageSpawns.imageY[index] * effectiveScale
+      if (screenX < -10 || screenY < -10 || screenX > width + 10 || screenY > height + 10) continue
+      const layer = imageSpawnLayer(imageSpawns, index)
+      const row = imageSpawns.rows[index]
+      const key = layer.keyBase + row
+      const level = Math.round((layer.spawns.levelMin[row] + layer.spawns.levelMax[row]) / 2)
+
+      ctx.fillStyle = highlightDenseSpawns && densityInfo.denseIds.has(key) ? "rgba(239,68,68,0.85)" : levelColor(level)
+      ctx.strokeStyle = layer.color
+      ctx.lineWidth = layer.color === "#ffffff" ? 1.2 : 2
       ctx.beginPath()
-      ctx.arc(spawn.screenX, spawn.screenY, radius, 0, Math.PI * 2)
+      ctx.arc(screenX, screenY, radius, 0, Math.PI * 2)
       ctx.fill()
       ctx.stroke()
 
-      const level = Math.round((spawn.levelMin + spawn.levelMax) / 2)
+      if (blockingDenseIds.has(key)) {
+        ctx.strokeStyle = "rgba(249,115,22,0.95)"
+        ctx.lineWidth = 2.5
+        ctx.beginPath()
+        ctx.arc(screenX, screenY, radius + 5, 0, Math.PI * 2)
+        ctx.stroke()
+      }
+
       ctx.strokeStyle = "rgba(0,0,0,0.75)"
       ctx.lineWidth = 2.5
-      ctx.strokeText(String(level), spawn.screenX, spawn.screenY - 9)
+      ctx.strokeText(String(level), screenX, screenY - 9)
       ctx.fillStyle = "#ffffff"
-      ctx.fillText(String(level), spawn.screenX, spawn.screenY - 9)
-      ctx.strokeStyle = "#ffffff"
-      ctx.lineWidth = 1.2
+      ctx.fillText(String(level), screenX, screenY - 9)
+    }
+  }, [
+    imageSpawns,
+    viewport.offsetX,
+    viewport.offsetY,
+    effectiveScale,
+    densityInfo.denseIds,
+    blockingDenseIds,
+    highlightDenseSpawns,
+    projectedMarkPoints,
+    projectedNoGoZones,
+    projectedClusters,
+    selectedClusterId,
+    markRouteClosed,
+    viewport.width,
+    viewport.height,
+    redrawVersion,
+  ])
+
+  // Only the hovered spawn is turned back into an object, placed on screen the same way the canvas draws it.
+  const hoveredLayer = hoveredSpawnKey === null ? undefined : spawnLayerOf(spawnLayers, hoveredSpawnKey)
+  const hoveredSpawn = (() => {
+    if (!hoveredLayer || hoveredSpawnKey === null || !worldToImageAffine) return null
+    const spawn = spawnPointAt(hoveredLayer, hoveredSpawnKey - hoveredLayer.keyBase)
+    const { a, b, c, d, e, f } = worldToImageAffine
+    return {
+      ...spawn,
+      screenX: viewport.offsetX + (a * spawn.positionX + b * spawn.positionY + c) * effectiveScale,
+      screenY: viewport.offsetY + (d * spawn.positionX + e * spawn.positionY + f) * effectiveScale,
     }
-  }, [projectedSpawns, projectedMarkPoints, viewport.width, viewport.height, redrawVersion])
+  })()
+
+  const autoRouteJobBase = (): Omit<AutoRouteJobRequest, "center"> => ({
+    points: densityInfo.points,
+    autoTune: autoTuneEnabled,
+    clusterRadius: autoClusterRadius,
+    maxAreaRadius: autoMaxAreaRadius,
+    maxStepDistance: autoMaxStepDistance,
+    avoidDenseTravelRadius: autoAvoidTravelRadius,
+    dirtySupportRadius: autoDirtySupportRadius ?? undefined,
+    maxWaypoints: autoMaxWaypoints,
+    routeCount: Math.max(1, autoRouteCount),
+    minRouteSeparation: autoRouteSeparation,
+    options: {
+      closedLoop: autoClosedLoop,
+      verticalWeight: routeVerticalWeight,
+      maxClimb: autoUse3D ? autoMaxClimb : 0,
+      noGoZones: noGoZones.map((zone) => zone.points),
+      playerLevel: autoPlayerLevel,
+      packPolicy,
+      coverageRadius: autoCoverageEnabled ? autoWaypointRadius : undefined,
+      objective: autoTuneForXp ? "xp-per-hour" : "engaged",
+      simulation: { moveSpeed: autoMoveSpeed, killTime: autoKillTime, respawnTime: autoRespawnTime },
+      hazardIds: routeHazardIds.size > 0 ? [...routeHazardIds] : undefined,
+    },
+  })
 
-  const createAutoRoute = () => {
-    const worldCenter = imageToWorld(screenToImage(viewport.width / 2, viewport.height / 2))
+  const createAutoRoute = async () => {
+    const worldCenter =
+      routeCenterOverride?.point ?? imageToWorld(screenToImage(viewport.width / 2, viewport.height / 2))
     if (!worldCenter) {
       setAutoRouteInfo("需要先完成标定/变换后才能生成路线（让地图能换算世界坐标）。")
       return
@@ -758,101 +1865,217 @@ function App() {
       return
     }
 
-    let clusterRadius = autoClusterRadius
-    let maxAreaRadius = autoMaxAreaRadius
-    let maxStepDistance = autoMaxStepDistance
-    let avoidDenseTravelRadius = autoAvoidTravelRadius
-    let dirtySupportRadius = Math.max(maxStepDistance * 2, clusterRadius * 4)
-
-    if (autoTuneEnabled) {
-      const limit = 8000
-      let tunePoints = densityInfo.points
-      if (densityInfo.points.length > limit) {
-        const stride = Math.ceil(densityInfo.points.length / limit)
-        const sampled: SpawnXYZ[] = []
-        for (let index = 0; index < densityInfo.points.length; index += stride) {
-          sampled.push(densityInfo.points[index])
-        }
-        tunePoints = sampled
+    // Fixed stops get ids no spawn uses, so they can be told apart in the returned route.
+    const startMark = markPoints.find((point) => point.id === routeStartId)
+    const endMark = markPoints.find((point) => point.id === routeEndId)
+    const fixedStop = (mark: MarkPoint | undefined, id: number) =>
+      mark ? { id, x: mark.center[0], y: mark.center[1], z: mark.center[2] } : undefined
+
+    autoRouteAbortRef.current?.abort()
+    const controller = new AbortController()
+    autoRouteAbortRef.current = controller
+    setAutoRouteProgress({ stage: autoTuneEnabled ? "tune" : "route", progress: 0 })
+
+    let job: AutoRouteJobResult
+    try {
+      const base = autoRouteJobBase()
+      job = await runAutoRouteInWorker(
+        {
+          ...base,
+          center: worldCenter,
+          options: {
+            ...base.options,
+            fixedStart: fixedStop(startMark, FIXED_START_ID),
+            fixedEnd: fixedStop(endMark, FIXED_END_ID),
+          },
+        },
+        { signal: controller.signal, onProgress: setAutoRouteProgress },
+      )
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setAutoRouteInfo("已取消生成路线。")
+      } else {
+        setAutoRouteInfo(`生成路线失败：${error instanceof Error ? error.message : String(error)}`)
       }
-
-      const tuned = tuneAutoRouteParams(tunePoints, worldCenter, autoMaxWaypoints)
-      if (tuned) {
-        clusterRadius = Math.max(0, tuned.clusterRadius)
-        maxAreaRadius = Math.max(0, tuned.maxAreaRadius)
-        maxStepDistance = Math.max(0, tuned.maxStepDistance)
-        avoidDenseTravelRadius = Math.max(0, tuned.avoidDenseTravelRadius)
-        dirtySupportRadius = Math.max(0, tuned.dirtySupportRadius)
-
-        setAutoClusterRadius(clusterRadius)
-        setAutoMaxAreaRadius(maxAreaRadius)
-        setAutoMaxStepDistance(maxStepDistance)
-        setAutoAvoidTravelRadius(avoidDenseTravelRadius)
+      return
+    } finally {
+      if (autoRouteAbortRef.current === controller) {
+        autoRouteAbortRef.current = null
+        setAutoRouteProgress(null)
       }
     }
 
-    const minSupportCount = 3
-    const dirtyCounts = computeNeighborCounts(densityInfo.points, dirtySupportRadius)
-    let dirtyIds = new Set<number>()
-    for (const point of densityInfo.points) {
-      const count = dirtyCounts.get(point.id) ?? 1
-      if (count < minSupportCount) dirtyIds.add(point.id)
+    applyAutoRouteJob(job)
+  }
+
+  // Fixed start/end stops are left out of the scan: a spot is judged on its own, not on the way to a vendor.
+  const findSpots = async () => {
+    if (densityInfo.points.length === 0) {
+      setAutoRouteInfo("当前过滤条件下没有可用的怪物点位。")
+      return
     }
-    let usablePoints = densityInfo.points.filter((point) => !dirtyIds.has(point.id))
-    let usedSupportCount = minSupportCount
-    if (usablePoints.length < Math.min(densityInfo.points.length, Math.max(60, autoMaxWaypoints * 3))) {
-      const relaxedMin = 2
-      const relaxedDirtyIds = new Set<number>()
-      for (const point of densityInfo.points) {
-        const count = dirtyCounts.get(point.id) ?? 1
-        if (count < relaxedMin) relaxedDirtyIds.add(point.id)
+
+    autoRouteAbortRef.current?.abort()
+    const controller = new AbortController()
+    autoRouteAbortRef.current = controller
+    setAutoRouteProgress({ stage: "scan", progress: 0 })
+
+    try {
+      const result = await scanSpotsInWorker(
+        { ...autoRouteJobBase(), maxCandidates: SPOT_SCAN_CANDIDATES, levelRange },
+        { signal: controller.signal, onProgress: setAutoRouteProgress },
+      )
+      setSpotScan(result)
+      setActiveSpotIndex(null)
+      setAutoRouteInfo(
+        result.spots.length > 0
+          ? `已扫描 ${result.scanned} 个候选中心，找到 ${result.spots.length} 个可生成路线的刷怪点，点击列表可跳转并载入路线。`
+          : `已扫描 ${result.scanned} 个候选中心，没有找到可生成路线的刷怪点，可增大最大路线半径或放宽等级范围。`,
+      )
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setAutoRouteInfo("已取消查找刷怪点。")
+      } else {
+        setAutoRouteInfo(`查找刷怪点失败：${error instanceof Error ? error.message : String(error)}`)
       }
-      const relaxedUsable = densityInfo.points.filter((point) => !relaxedDirtyIds.has(point.id))
-      if (relaxedUsable.length >= usablePoints.length) {
-        usablePoints = relaxedUsable
-        dirtyIds = relaxedDirtyIds
-        usedSupportCount = relaxedMin
+    } finally {
+      if (autoRouteAbortRef.current === controller) {
+        autoRouteAbortRef.current = null
+        setAutoRouteProgress(null)
       }
     }
+  }
 
-    const denseCounts = computeNeighborCounts(usablePoints, clusterRadius)
-    const denseIds = new Set<number>()
-    for (const point of usablePoints) {
-      const count = denseCounts.get(point.id) ?? 1
-      if (count >= 3) denseIds.add(point.id)
+  const loadSpot = (spot: SpotCandidate, index: number) => {
+    const imagePoint = worldToImage(spot.center)
+    if (imagePoint) {
+      setViewport((prev) => ({
+        ...prev,
+        offsetX: prev.width / 2 - imagePoint.x * prev.baseScale * prev.scale,
+        offsetY: prev.height / 2 - imagePoint.y * prev.baseScale * prev.scale,
+      }))
     }
+    setRouteCenterOverride(null)
+    setActiveSpotIndex(index)
+    applyAutoRouteJob(spot.job)
+  }
 
-    const result = generateAutoRoute(usablePoints, denseIds, {
-      center: worldCenter,
-      maxAreaRadius,
-      maxStepDistance,
-      maxWaypoints: autoMaxWaypoints,
-      avoidDenseTravelRadius,
-    })
+  const applyTunedParams = (params: TunedAutoRouteParams) => {
+    setAutoClusterRadius(params.clusterRadius)
+    setAutoMaxAreaRadius(params.maxAreaRadius)
+    setAutoMaxStepDistance(params.maxStepDistance)
+    setAutoAvoidTravelRadius(params.avoidDenseTravelRadius)
+    setAutoDirtySupportRadius(params.dirtySupportRadius)
+    setAutoTuneEnabled(false)
+    setAutoRouteInfo("已应用所选调参结果并关闭自动调参，点“生成路线”按这组参数生成。")
+  }
+
+  const applyAutoRouteJob = (job: AutoRouteJobResult) => {
+    const startMark = markPoints.find((point) => point.id === routeStartId)
+    const endMark = markPoints.find((point) => point.id === routeEndId)
+
+    const { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius } = job
+    // Runs without tuning keep the previous exploration, so a point picked from it stays comparable.
+    if (job.exploration) setTuneResults({ exploration: job.exploration, byXp: autoTuneForXp })
+    if (job.tuned) {
+      setAutoClusterRadius(clusterRadius)
+      setAutoMaxAreaRadius(maxAreaRadius)
+      setAutoMaxStepDistance(maxStepDistance)
+      setAutoAvoidTravelRadius(avoidDenseTravelRadius)
+      setAutoDirtySupportRadius(dirtySupportRadius)
+    }
+
+    const result = job.results[0]
+    const routes = job.results.filter((item) => item.route.length > 0)
+    setBlockingDenseIds(new Set(job.results.flatMap((item) => item.diagnostics.blockingDenseIds)))
 
     const createdAt = Date.now()
-    const nextMarks: MarkPoint[] = result.route.map((point, index) => ({
-      id: createdAt + index,
-      name: `自动${index + 1}`,
-      center: [point.x, point.y, point.z],
-      radius: autoWaypointRadius,
-    }))
+    const fixedMarks = [startMark, endMark].filter((mark): mark is MarkPoint => mark !== undefined)
+    const generatedMarks: MarkPoint[] = routes.flatMap((item, route) =>
+      item.route.map((point, index) => {
+        const id = createdAt + route * 100000 + index
+        // The first route keeps the fixed stops' own marks so they stay selected as start/end.
+        const mark = point.id === FIXED_START_ID ? startMark : point.id === FIXED_END_ID ? endMark : undefined
+        if (mark) return { ...mark, id: route === 0 ? mark.id : id, route }
+        return {
+          id,
+          name: routes.length > 1 ? `路线${route + 1}-${index + 1}` : `自动${index + 1}`,
+          center: [point.x, point.y, point.z] as [number, number, number],
+          radius: autoWaypointRadius,
+          route,
+        }
+      }),
+    )
+    const nextMarks = routes.length > 0 ? generatedMarks : fixedMarks.map((mark) => ({ ...mark, route: 0 }))
 
     setMarkPoints(nextMarks)
+    setMarkRouteClosed(autoClosedLoop)
     setActiveMarkPointId(nextMarks[0]?.id ?? null)
 
-    const safeCount = usablePoints.length - denseIds.size
+    const safeCount = job.usableCount - job.denseCount
     const fmt = (value: number) => (Number.isFinite(value) ? Number(value.toFixed(2)) : value)
-    const dirtyText = `脏点过滤：半径=${fmt(dirtySupportRadius)} 最小邻居=${usedSupportCount} 过滤=${dirtyIds.size}/${densityInfo.points.length}，可用=${usablePoints.length}。`
+    const dirtyText = `脏点过滤：半径=${fmt(dirtySupportRadius)} 最小邻居=${job.usedSupportCount} 过滤=${job.dirtyCount}/${densityInfo.points.length}，可用=${job.usableCount}。`
+    const lengthLabel = autoClosedLoop ? "一圈长度" : "路线长度"
+    const lengthText =
+      routes.length > 1
+        ? `${routes
+            .map((item, route) => `路线${route + 1}：${item.stats.picked} 点，${lengthLabel} ${fmt(item.stats.travelDistance)}`)
+            .join("；")}。`
+        : `${lengthLabel} ${fmt(result.stats.travelDistance)}。`
+    const engagedTotal = routes.reduce((sum, item) => sum + item.stats.engaged, 0)
+    const engagedText = packPolicy
+      ? `覆盖怪物 ${engagedTotal} 只（每点 ${packPolicy.minPull}~${packPolicy.maxPull} 只）。`
+      : autoCoverageEnabled
+        ? `覆盖怪物 ${engagedTotal} 只，各点新覆盖：${routes
+            .map((item) => item.stats.coveredPerWaypoint.join("/"))
+            .join("；")}。`
+        : ""
+    const simulations = job.simulations?.filter((_, index) => job.results[index].route.length > 0) ?? []
+    const simulationText =
+      simulations.length > 0
+        ? `模拟（1 小时）：${simulations
+            .map(
+              (simulation, route) =>
+                `${routes.length > 1 ? `路线${route + 1} ` : ""}击杀 ${Math.round(simulation.killsPerHour)}/小时，经验 ${Math.round(simulation.xpPerHour)}/小时，等待刷新 ${fmt(simulation.idleRatio * 100)}%`,
+            )
+            .join("；")}。`
+        : ""
+    const countText =
+      autoRouteCount > 1 && routes.length < autoRouteCount ? `仅生成 ${routes.length}/${autoRouteCount} 条路线。` : ""
+    const chosenStart = result.diagnostics.starts.find((item) => item.startId === result.diagnostics.chosenStartId)
+    const reasonCounts = new Map<AutoRouteStopReason, number>()
+    for (const item of result.diagnostics.starts) reasonCounts.set(item.reason, (reasonCounts.get(item.reason) ?? 0) + 1)
+    const blockerText =
+      chosenStart && chosenStart.blockingDenseIds.length > 0
+        ? `（阻挡点 guid：${chosenStart.blockingDenseIds
+            .slice(0, 5)
+            .map((key) => spawnGuidOf(spawnLayers, key))
+            .join(", ")}${chosenStart.blockingDenseIds.length > 5 ? " 等" : ""}）`
+        : ""
+    const diagnosticsText = chosenStart
+      ? `停止原因：${STOP_REASON_LABELS[chosenStart.reason].label}${blockerText}，${STOP_REASON_LABELS[chosenStart.reason].hint}。各起点：${[
+          ...reasonCounts,
+        ]
+          .map(([reason, count]) => `${STOP_REASON_LABELS[reason].label}×${count}`)
+          .join("、")}；地图上橙圈为阻挡密集点 ${result.diagnostics.blockingDenseIds.length} 个。`
+      : ""
+    const fixedFailure = result.diagnostics.starts.find(
+      (item) => item.reason === "end-unreachable" || item.reason === "end-beyond-max-waypoints",
+    )
+    const requiredText =
+      result.diagnostics.requiredWaypoints !== null ? `（至少需要 ${result.diagnostics.requiredWaypoints} 个点位）` : ""
+    const fixedFailureText = fixedFailure
+      ? `${STOP_REASON_LABELS[fixedFailure.reason].label}${requiredText}，${STOP_REASON_LABELS[fixedFailure.reason].hint}。`
+      : ""
     const paramsText = `参数：密集半径=${fmt(clusterRadius)} 步长=${fmt(maxStepDistance)} 路线半径=${fmt(maxAreaRadius)} 绕开=${fmt(avoidDenseTravelRadius)}。${dirtyText}`
 
-    if (result.route.length === 0) {
+    if (routes.length === 0) {
       setAutoRouteInfo(
-        `未找到可用路线：安全点 ${safeCount}/${usablePoints.length}，区域内安全点 ${result.stats.safeInArea}/${result.stats.inArea}，密集点 ${result.stats.denseInArea}。${paramsText}`,
+        `未找到可用路线：${fixedFailureText}安全点 ${safeCount}/${job.usableCount}，区域内安全点 ${result.stats.safeInArea}/${result.stats.inArea}，密集点 ${result.stats.denseInArea}。${paramsText}`,
       )
     } else {
       setAutoRouteInfo(
-        `已生成 ${result.stats.picked} 个点位：安全点 ${safeCount}/${usablePoints.length}，区域内安全 ${result.stats.safeInArea}/${result.stats.inArea}，密集 ${result.stats.denseInArea}。${paramsText}`,
+        `已生成 ${nextMarks.length} 个点位：安全点 ${safeCount}/${job.usableCount}，区域内安全 ${result.stats.safeInArea}/${result.stats.inArea}，密集 ${result.stats.denseInArea}。${lengthText}${engagedText}${simulationText}${countText}${diagnosticsText}${paramsText}`,
       )
     }
   }
@@ -919,6 +2142,57 @@ function App() {
             <CardTitle>地图标定控制台（动态瓦片）</CardTitle>
           </CardHeader>
           <CardContent className="flex-1 min-h-0 space-y-4 overflow-y-auto">
+            <div className="space-y-2">
+              <Label>项目文件</Label>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => openProject()}>
+                  打开项目
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => saveProject(false)}>
+                  保存项目
+                </Button>
+                {projectStorage.native ? (
+                  <Button size="sm" variant="outline" onClick={() => saveProject(true)}>
+                    另存为
+                  </Button>
+                ) : null}
+                {autosaveText ? (
+                  <Button size="sm" variant="secondary" onClick={restoreAutosave}>
+                    恢复自动保存
+                  </Button>
+                ) : null}
+              </div>
+              {recentProjects.length > 0 ? (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">最近项目</p>
+                  {recentProjects.map((project) => (
+                    <button
+                      key={project.path}
+                      type="button"
+                      className={`block w-full truncate rounded p-1 text-left text-xs hover:bg-muted ${
+                        project.path === projectPath ? "bg-muted" : ""
+                      }`}
+                      title={project.path}
+                      onClick={() => openProject(project.path)}
+                    >
+                      {project.name}
+                      <span className="text-muted-foreground"> · {new Date(project.openedAt).toLocaleString()}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              <p className="text-xs text-muted-foreground">
+                {projectInfo || "保存标定、图层、过滤、自动路线参数、禁区和点位；也能打开旧版导出的点位 JSON。"}
+                {autosaveInfo ? ` ${autosaveInfo}。` : ""}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {projectStorage.native
+                  ? "桌面版每分钟把有改动的工作区自动保存到应用数据目录。"
+                  : "网页版通过上传/下载读写项目，自动保存在浏览器本地存储。"}
+                {" 自动保存不含刷怪图层，恢复后需重新导入或打开项目文件。"}
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>地图</Label>
               <div className="flex gap-2">
@@ -955,9 +2229,118 @@ function App() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="spawn-file">导入点位 TXT（id,x,y,z,map,faction,level_min,level_max）</Label>
-              <Input id="spawn-file" type="file" accept=".txt,.csv,text/plain" onChange={onImportTxt} />
-              <p className="text-xs text-muted-foreground">{importInfo}</p>
+              <Label htmlFor="spawn-file">导入点位 TXT/CSV/SQL（id,x,y,z,map,faction,level_min,level_max）</Label>
+              <Input
+                id="spawn-file"
+                type="file"
+                accept=".txt,.csv,.tsv,.sql,text/plain"
+                multiple
+                onChange={onImportTxt}
+              />
+              {importProgress ? (
+                <div className="space-y-1">
+                  <div className="h-1.5 w-full overflow-hidden rounded bg-muted">
+                    <div
+                      className="h-full bg-primary transition-[width]"
+                      style={{ width: `${Math.round(importProgress.progress * 100)}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {importProgress.stage === "read" ? "读取文件中" : `解析中，已读 ${importProgress.rows} 条`}{" "}
+                      {Math.round(importProgress.progress * 100)}%
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => importAbortRef.current?.abort()}>
+                      取消
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">{importInfo}</p>
+              )}
+              {importErrors.length > 0 && (
+                <div className="max-h-32 space-y-0.5 overflow-y-auto rounded border p-2 text-xs text-muted-foreground">
+                  {importErrors.slice(0, IMPORT_ERROR_PREVIEW).map((error) => (
+                    <p key={`${error.source ?? ""}-${error.line}-${error.reason}-${error.field ?? ""}`} title={error.text}>
+                      {error.source ? `${error.source} ` : ""}第 {error.line} 行：{IMPORT_ERROR_LABELS[error.reason]}
+                      {error.field ? `（${SPAWN_FIELD_LABELS[error.field]}）` : ""}
+                    </p>
+                  ))}
+                  {importErrorCount > IMPORT_ERROR_PREVIEW && <p>…另有 {importErrorCount - IMPORT_ERROR_PREVIEW} 条</p>}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                支持逗号、制表符、分号、竖线或空格分隔，可带表头（guid、position_x、map、minlevel、entry、name、spawntimesecs 等）；无表头时按上述列顺序，可追加 respawn、entry、name 列。也可直接选择 AzerothCore/TrinityCore 的 creature SQL 导出（可与 creature_template 一起多选），等级、阵营和名称取自模板。多选时每个文本文件各成一个图层，所有 SQL 文件合为一个图层。
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>点位图层</Label>
+              <div className="max-h-40 space-y-2 overflow-auto">
+                {spawnLayers.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">每次导入都会新建一个图层，可叠加守卫、巡逻 NPC 等数据。</p>
+                ) : (
+                  spawnLayers.map((layer) => (
+                    <div key={layer.id} className="grid grid-cols-[24px_1fr_auto_auto_28px] items-center gap-2 text-xs">
+                      <input
+                        type="color"
+                        className="h-6 w-6 cursor-pointer rounded border bg-transparent"
+                        value={layer.color}
+                        onChange={(event) =>
+                          setSpawnLayers((prev) =>
+                            prev.map((item) => (item.id === layer.id ? { ...item, color: event.target.value } : item)),
+                          )
+                        }
+                      />
+                      <Input
+                        value={layer.name}
+                        title={`${layer.spawns.count} 个点位`}
+                        onChange={(event) =>
+                          setSpawnLayers((prev) =>
+                            prev.map((item) => (item.id === layer.id ? { ...item, name: event.target.value } : item)),
+                          )
+                        }
+                      />
+                      <Button
+                        size="sm"
+                        variant={layer.role === "target" ? "secondary" : "outline"}
+                        onClick={() =>
+                          setSpawnLayers((prev) =>
+                            prev.map((item) => (item.id === layer.id ? { ...item, role: NEXT_LAYER_ROLE[item.role] } : item)),
+                          )
+                        }
+                      >
+                        {LAYER_ROLE_LABELS[layer.role]}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={layer.visible ? "secondary" : "outline"}
+                        onClick={() =>
+                          setSpawnLayers((prev) =>
+                            prev.map((item) => (item.id === layer.id ? { ...item, visible: !item.visible } : item)),
+                          )
+                        }
+                      >
+                        {layer.visible ? "显示" : "隐藏"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setSpawnLayers((prev) => prev.filter((item) => item.id !== layer.id))}
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+              {spawnLayers.length > 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  点击角色按钮切换：路线目标参与选点；危险计入密度并被路线绕开；仅显示只画在地图上。等级与名称过滤只作用于目标图层。同一点位（guid
+                  与坐标都相同）出现在多个图层时以靠前的图层为准，仅 guid 相同的按不同点位处理。
+                  {duplicateSpawnCount > 0 ? `当前地图有 ${duplicateSpawnCount} 个重复点位按靠前的图层计。` : ""}
+                </p>
+              ) : null}
             </div>
 
             <div className="space-y-2">
@@ -974,9 +2357,69 @@ function App() {
             <div className="space-y-2 rounded-md border p-3">
               <div className="flex items-center justify-between">
                 <Label>点位列表（右键地图添加）</Label>
-                <Button size="sm" variant="outline" onClick={copyMarkPoints}>
-                  {copied ? "已复制" : "复制导出"}
-                </Button>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={copyMarkPoints}>
+                    {copied ? "已复制" : "复制导出"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={saveMarkPoints}>
+                    导出文件
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {listRouteExporters().map((item) => (
+                  <Button
+                    key={item.id}
+                    size="sm"
+                    variant={item.id === exporter.id ? "secondary" : "outline"}
+                    onClick={() => setExportFormat(item.id)}
+                  >
+                    {EXPORTER_LABELS[item.id] ?? item.id}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {exporter.settings.map((field) => {
+                  const label = EXPORT_SETTING_LABELS[field.key] ?? field.key
+                  const value = exporterSettings[field.key]
+                  return (
+                    <div key={field.key} className="space-y-1">
+                      <Label htmlFor={`export-${field.key}`}>{label}</Label>
+                      {field.kind === "boolean" ? (
+                        <Button
+                          id={`export-${field.key}`}
+                          size="sm"
+                          className="w-full"
+                          variant={value ? "secondary" : "outline"}
+                          onClick={() => setExporterSetting(field.key, !value)}
+                        >
+                          {value ? "是" : "否"}
+                        </Button>
+                      ) : field.kind === "number" ? (
+                        <Input
+                          id={`export-${field.key}`}
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={Number(value)}
+                          onChange={(event) => setExporterSetting(field.key, Number(event.target.value) || 0)}
+                        />
+                      ) : (
+                        <Input
+                          id={`export-${field.key}`}
+                          value={String(value)}
+                          onChange={(event) => setExporterSetting(field.key, event.target.value)}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="route-file">导入路线（JSON / XML / Lua / CSV）</Label>
+                <Input id="route-file" type="file" accept=".json,.xml,.lua,.csv,.txt" onChange={onImportRoute} />
+                {routeImportInfo ? <p className="text-xs text-muted-foreground">{routeImportInfo}</p> : null}
               </div>
               <div className="max-h-44 space-y-2 overflow-auto">
                 {markPoints.length === 0 ? (
@@ -985,7 +2428,7 @@ function App() {
                   markPoints.map((point) => (
                     <div
                       key={point.id}
-                      className={`grid grid-cols-[1fr_90px_28px] items-center gap-2 rounded p-1 text-xs ${
+                      className={`grid grid-cols-[1fr_90px_28px_28px_28px] items-center gap-2 rounded p-1 text-xs ${
                         activeMarkPointId === point.id ? "bg-muted" : ""
                       }`}
                       onClick={() => setActiveMarkPointId(point.id)}
@@ -1013,6 +2456,28 @@ function App() {
                           )
                         }
                       />
+                      <Button
+                        size="sm"
+                        variant={routeStartId === point.id ? "default" : "outline"}
+                        title="设为自动路线固定起点"
+                        onClick={() => {
+                          setRouteStartId((prev) => (prev === point.id ? null : point.id))
+                          if (routeEndId === point.id) setRouteEndId(null)
+                        }}
+                      >
+                        起
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={routeEndId === point.id ? "default" : "outline"}
+                        title="设为自动路线固定终点"
+                        onClick={() => {
+                          setRouteEndId((prev) => (prev === point.id ? null : point.id))
+                          if (routeStartId === point.id) setRouteStartId(null)
+                        }}
+                      >
+                        终
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -1026,6 +2491,11 @@ function App() {
                   ))
                 )}
               </div>
+              {markPoints.length > 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  “起”/“终”把点位设为自动路线的固定起点/终点，路线在点位上限内从起点走到终点，闭环时回到起点。
+                </p>
+              ) : null}
               <textarea
                 className="h-28 w-full rounded-md border bg-background p-2 font-mono text-xs"
                 readOnly
@@ -1033,6 +2503,142 @@ function App() {
               />
             </div>
 
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between">
+                <Label>禁区（路线不可进入/穿越）</Label>
+                {zoneDraft ? (
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" disabled={zoneDraft.length < 3} onClick={finishZoneDraft}>
+                      完成({zoneDraft.length})
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setZoneDraft(null)}>
+                      取消
+                    </Button>
+                  </div>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setZoneDraft([])}>
+                    绘制禁区
+                  </Button>
+                )}
+              </div>
+              {zoneDraft ? (
+                <p className="text-xs text-muted-foreground">左键单击地图依次添加顶点，至少 3 个顶点后点“完成”。</p>
+              ) : null}
+              <div className="max-h-32 space-y-2 overflow-auto">
+                {noGoZones.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">暂无禁区，可用于标记主城、精英营地、深水等区域。</p>
+                ) : (
+                  noGoZones.map((zone) => (
+                    <div key={zone.id} className="grid grid-cols-[1fr_48px_28px] items-center gap-2 text-xs">
+                      <Input
+                        value={zone.name}
+                        onChange={(event) =>
+                          setNoGoZones((prev) =>
+                            prev.map((item) => (item.id === zone.id ? { ...item, name: event.target.value } : item)),
+                          )
+                        }
+                      />
+                      <span className="text-muted-foreground">{zone.points.length} 顶点</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setNoGoZones((prev) => prev.filter((item) => item.id !== zone.id))}
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between">
+                <Label>聚类（DBSCAN）</Label>
+                <Button
+                  size="sm"
+                  variant={clusterOverlayEnabled ? "secondary" : "outline"}
+                  onClick={() => {
+                    setClusterOverlayEnabled((value) => !value)
+                    setSelectedClusterId(null)
+                  }}
+                >
+                  {clusterOverlayEnabled ? "聚类开" : "聚类关"}
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>邻域半径</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={clusterEps}
+                    onChange={(event) => setClusterEps(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>核心点最少邻居</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={clusterMinPoints}
+                    onChange={(event) => setClusterMinPoints(Math.max(1, Math.floor(Number(event.target.value) || 1)))}
+                  />
+                </div>
+              </div>
+              {clustering ? (
+                <p className="text-xs text-muted-foreground">
+                  共 {clustering.clusters.length} 个簇，噪声点 {clustering.noiseIds.length} 个；左键单击地图上的簇进行选择。
+                </p>
+              ) : null}
+              {selectedCluster ? (
+                <div className="space-y-2 rounded bg-muted p-2 text-xs">
+                  <p>
+                    簇 #{selectedCluster.id}：{selectedCluster.members.length} 只
+                    {selectedCluster.levelMin !== undefined
+                      ? `，等级 ${selectedCluster.levelMin}~${selectedCluster.levelMax}`
+                      : ""}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => toggleClusterExcluded(selectedCluster)}>
+                      {selectedCluster.members.every((member) => excludedSpawnIds.has(member.id)) ? "恢复参与路线" : "排除出路线"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setRouteCenterOverride({ label: `簇 #${selectedCluster.id}`, point: selectedCluster.center })
+                      }
+                    >
+                      设为路线中心
+                    </Button>
+                  </div>
+                </div>
+              ) : null}
+              {excludedSpawnIds.size > 0 || routeCenterOverride ? (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {excludedSpawnIds.size > 0 ? (
+                    <>
+                      <span>已排除 {excludedSpawnIds.size} 个点位（不作为路线目标，仍按危险点绕开）</span>
+                      <Button size="sm" variant="outline" onClick={() => setExcludedSpawnIds(new Set())}>
+                        清除排除
+                      </Button>
+                    </>
+                  ) : null}
+                  {routeCenterOverride ? (
+                    <>
+                      <span>路线中心：{routeCenterOverride.label}</span>
+                      <Button size="sm" variant="outline" onClick={() => setRouteCenterOverride(null)}>
+                        改回视图中心
+                      </Button>
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+
             <div className="space-y-2">
               <Label>等级范围过滤</Label>
               <div className="grid grid-cols-2 gap-2">
@@ -1070,6 +2676,43 @@ function App() {
               <p className="text-xs text-muted-foreground">显示与区间有交集的点位（level_min ~ level_max）。</p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="name-query">怪物名称 / entry 过滤</Label>
+              <Input
+                id="name-query"
+                list="spawn-names"
+                placeholder="如 Bloodscalp, 597"
+                value={nameQuery}
+                onChange={(event) => setNameQuery(event.target.value)}
+              />
+              <datalist id="spawn-names">
+                {spawnNames.map(([name]) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setNameFilterMode((mode) => (mode === "include" ? "exclude" : "include"))}
+                >
+                  {nameFilterMode === "include" ? "只保留匹配" : "排除匹配"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={targetMatchingOnly ? "secondary" : "outline"}
+                  onClick={() => setTargetMatchingOnly((value) => !value)}
+                >
+                  {targetMatchingOnly ? "路线目标：匹配的怪" : "仅过滤显示"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                逗号分隔多个词，数字按 entry 匹配，其它按名称包含匹配。切到“路线目标”后其它怪仍显示在地图上，
+                但自动路线只打目标怪，其余视为危险点绕开（按密集点标红）
+                {targetMatchingOnly && nameTerms.length > 0 ? `，当前危险点 ${hazardIds.size} 个` : ""}。
+              </p>
+            </div>
+
             <div className="space-y-2 rounded-md border p-3">
               <div className="flex items-center justify-between">
                 <Label>自动打怪路线</Label>
@@ -1081,11 +2724,65 @@ function App() {
                   >
                     {autoTuneEnabled ? "自动调参开" : "自动调参关"}
                   </Button>
-                  <Button size="sm" onClick={createAutoRoute}>
-                    生成路线
+                  <Button
+                    size="sm"
+                    variant={autoClosedLoop ? "secondary" : "outline"}
+                    onClick={() => setAutoClosedLoop((value) => !value)}
+                  >
+                    {autoClosedLoop ? "闭环开" : "闭环关"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={autoPackEnabled ? "secondary" : "outline"}
+                    onClick={() => {
+                      setAutoPackEnabled((value) => !value)
+                      setAutoCoverageEnabled(false)
+                    }}
+                  >
+                    {autoPackEnabled ? "拉怪开" : "拉怪关"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={autoCoverageEnabled ? "secondary" : "outline"}
+                    onClick={() => {
+                      setAutoCoverageEnabled((value) => !value)
+                      setAutoPackEnabled(false)
+                    }}
+                  >
+                    {autoCoverageEnabled ? "覆盖开" : "覆盖关"}
                   </Button>
+                  <Button
+                    size="sm"
+                    variant={autoUse3D ? "secondary" : "outline"}
+                    onClick={() => setAutoUse3D((value) => !value)}
+                  >
+                    {autoUse3D ? "3D开" : "3D关"}
+                  </Button>
+                  {autoRouteProgress ? (
+                    <Button size="sm" variant="outline" onClick={() => autoRouteAbortRef.current?.abort()}>
+                      取消
+                    </Button>
+                  ) : (
+                    <>
+                      <Button size="sm" variant="outline" onClick={findSpots}>
+                        查找刷怪点
+                      </Button>
+                      <Button size="sm" onClick={createAutoRoute}>
+                        生成路线
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
+              <p className="text-xs text-muted-foreground">
+                在怪尽量多的前提下避开密集聚落，从当前视图中心（或聚类面板中选定的簇中心）出发，每一步不超过“最大步长”。
+                {autoClosedLoop ? " 闭环：终点回到起点，这一步同样满足步长与绕开限制。" : ""}
+                {autoPackEnabled ? ` 拉怪：路点取 ${autoMinPull}~${autoMaxPull} 只怪的小团中心，按可拉怪数优先。` : ""}
+                {autoCoverageEnabled
+                  ? " 覆盖：路点不落在单个怪上，而是选在“点位半径”圆内覆盖尽量多安全怪的位置（圆内不含密集点），按新覆盖数优先。"
+                  : ""}
+                {autoUse3D ? " 3D：距离计入高差（乘以垂直权重），其他楼层的密集点不再阻挡。" : ""}
+              </p>
               <div className="grid grid-cols-2 gap-2">
                 <div className="space-y-1">
                   <Label>密集判定半径</Label>
@@ -1094,8 +2791,12 @@ function App() {
                     min={0}
                     step="any"
                     value={autoClusterRadius}
-                    onChange={(event) => setAutoClusterRadius(Math.max(0, Number(event.target.value) || 0))}
+                    onChange={(event) => {
+                      setAutoClusterRadius(Math.max(0, Number(event.target.value) || 0))
+                      setAutoDirtySupportRadius(null)
+                    }}
                   />
+                  <p className="text-xs text-muted-foreground">半径内点位数 ≥ {routeDenseThreshold} 即为密集点。</p>
                 </div>
                 <div className="space-y-1">
                   <Label>最大路线半径</Label>
@@ -1114,7 +2815,10 @@ function App() {
                     min={0}
                     step="any"
                     value={autoMaxStepDistance}
-                    onChange={(event) => setAutoMaxStepDistance(Math.max(0, Number(event.target.value) || 0))}
+                    onChange={(event) => {
+                      setAutoMaxStepDistance(Math.max(0, Number(event.target.value) || 0))
+                      setAutoDirtySupportRadius(null)
+                    }}
                   />
                 </div>
                 <div className="space-y-1">
@@ -1126,6 +2830,9 @@ function App() {
                     value={autoAvoidTravelRadius}
                     onChange={(event) => setAutoAvoidTravelRadius(Math.max(0, Number(event.target.value) || 0))}
                   />
+                  {autoPlayerLevel > 0 ? (
+                    <p className="text-xs text-muted-foreground">已设玩家等级，改用按等级差计算的仇恨半径。</p>
+                  ) : null}
                 </div>
                 <div className="space-y-1">
                   <Label>点位数量上限</Label>
@@ -1149,6 +2856,142 @@ function App() {
                     onChange={(event) => setAutoWaypointRadius(Math.max(0, Number(event.target.value) || 0))}
                   />
                 </div>
+                <div className="space-y-1">
+                  <Label>玩家等级（0 为关闭）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={80}
+                    step={1}
+                    value={autoPlayerLevel}
+                    onChange={(event) =>
+                      setAutoPlayerLevel(clamp(Math.floor(Number(event.target.value) || 0), 0, 80))
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    每个密集点按等级差计算仇恨半径：20 码起，每级 ±1，限制在 5~45。
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label>每次最少拉怪</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    disabled={!autoPackEnabled}
+                    value={autoMinPull}
+                    onChange={(event) => {
+                      const next = Math.max(1, Math.floor(Number(event.target.value) || 1))
+                      setAutoMinPull(next)
+                      setAutoMaxPull((value) => Math.max(value, next))
+                    }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>每次最多拉怪</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    disabled={!autoPackEnabled}
+                    value={autoMaxPull}
+                    onChange={(event) => {
+                      const next = Math.max(1, Math.floor(Number(event.target.value) || 1))
+                      setAutoMaxPull(next)
+                      setAutoMinPull((value) => Math.min(value, next))
+                    }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>路线数量</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={autoRouteCount}
+                    onChange={(event) =>
+                      setAutoRouteCount(Math.max(1, Math.floor(Number(event.target.value) || 1)))
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>路线最小间距</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={autoRouteSeparation}
+                    onChange={(event) => setAutoRouteSeparation(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                  <p className="text-xs text-muted-foreground">多条路线不共享怪物点，点位间距不小于此值；固定起点和终点不受此限制。</p>
+                </div>
+                <div className="space-y-1">
+                  <Label>垂直权重</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    disabled={!autoUse3D}
+                    value={autoVerticalWeight}
+                    onChange={(event) => setAutoVerticalWeight(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>单步最大高差</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    disabled={!autoUse3D}
+                    value={autoMaxClimb}
+                    onChange={(event) => setAutoMaxClimb(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                  <p className="text-xs text-muted-foreground">0 为不限。</p>
+                </div>
+                <div className="space-y-1">
+                  <Label>移动速度（码/秒）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={autoMoveSpeed}
+                    onChange={(event) => setAutoMoveSpeed(Math.max(0.1, Number(event.target.value) || 0))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>平均击杀耗时（秒）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={autoKillTime}
+                    onChange={(event) => setAutoKillTime(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>刷新时间（秒）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={autoRespawnTime}
+                    onChange={(event) => setAutoRespawnTime(Math.max(0, Number(event.target.value) || 0))}
+                  />
+                  <p className="text-xs text-muted-foreground">导入数据自带刷新时间的点位以自身为准。</p>
+                </div>
+                <div className="space-y-1">
+                  <Label>调参目标</Label>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    variant={autoTuneForXp ? "secondary" : "outline"}
+                    disabled={!autoTuneEnabled}
+                    onClick={() => setAutoTuneForXp((value) => !value)}
+                  >
+                    {autoTuneForXp ? "经验/小时" : "怪物数量"}
+                  </Button>
+                  <p className="text-xs text-muted-foreground">选“经验/小时”时自动调参按模拟经验择优。</p>
+                </div>
               </div>
               <div className="flex flex-wrap gap-2">
                 <Button
@@ -1158,17 +3001,72 @@ function App() {
                 >
                   {highlightDenseSpawns ? "已高亮密集点" : "高亮密集点"}
                 </Button>
-                <Button size="sm" variant="outline" onClick={() => setMarkPoints([])}>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setMarkPoints([])
+                    setBlockingDenseIds(new Set())
+                    setRouteStartId(null)
+                    setRouteEndId(null)
+                  }}
+                >
                   清空点位
                 </Button>
               </div>
-              <p className="text-xs text-muted-foreground">
-                目标：在怪尽量多（可串起更多安全点）的前提下避开密集聚落；密集点判定为“密集判定半径”内点位数 ≥ 3；路线中心使用当前视图中心，且每一步不超过“最大步长”。
-              </p>
               <p className="text-xs text-muted-foreground">
                 当前可用点位：{densityInfo.total}，密集点：{densityInfo.denseCount}。
               </p>
+              {autoRouteProgress ? (
+                <div className="space-y-1">
+                  <div className="h-1.5 w-full overflow-hidden rounded bg-muted">
+                    <div
+                      className="h-full bg-primary transition-[width]"
+                      style={{ width: `${Math.round(autoRouteProgress.progress * 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {autoRouteProgress.stage === "scan"
+                      ? "扫描刷怪点中"
+                      : autoRouteProgress.stage === "tune"
+                        ? "自动调参中"
+                        : "生成路线中"}{" "}
+                    {Math.round(autoRouteProgress.progress * 100)}%
+                  </p>
+                </div>
+              ) : null}
               {autoRouteInfo ? <p className="text-xs text-muted-foreground">{autoRouteInfo}</p> : null}
+              <p className="text-xs text-muted-foreground">
+                生成后给出每条路线的停止原因，橙圈标出挡住路线延伸的密集点，并按移动速度、击杀耗时与刷新时间模拟 1
+                小时，估算击杀数、经验与等待刷新的时间。“查找刷怪点”在当前过滤后的点位上按路线半径滑动候选中心（最多{" "}
+                {SPOT_SCAN_CANDIDATES} 个），逐个调参并生成路线后排序，不使用固定起终点。
+              </p>
+              {spotScan && spotScan.spots.length > 0 ? (
+                <div className="max-h-48 space-y-1 overflow-auto">
+                  {spotScan.spots.map((spot, index) => (
+                    <button
+                      key={`${spot.center.x},${spot.center.y}`}
+                      type="button"
+                      className={`block w-full rounded p-1 text-left text-xs hover:bg-muted ${
+                        activeSpotIndex === index ? "bg-muted" : ""
+                      }`}
+                      onClick={() => loadSpot(spot, index)}
+                    >
+                      #{index + 1} 怪物 {spot.engaged} 只，{spot.picked} 点，长度 {Math.round(spot.travelDistance)}，安全{" "}
+                      {Math.round(spot.safeRatio * 100)}%
+                      {spot.meanLevel !== null ? `，平均等级 ${spot.meanLevel.toFixed(1)}` : ""}
+                      {spot.xpPerHour !== null ? `，经验 ${Math.round(spot.xpPerHour)}/小时` : ""}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              {tuneResults && tuneResults.exploration.evaluations.length > 0 ? (
+                <TuneFrontPanel
+                  exploration={tuneResults.exploration}
+                  scoreLabel={tuneResults.byXp ? "经验/小时" : "怪物数"}
+                  onApply={applyTunedParams}
+                />
+              ) : null}
             </div>
 
             {currentMap?.key === "kingdoms" ? null : <div className="grid grid-cols-2 gap-3">
@@ -1229,7 +3127,7 @@ function App() {
               <p>
                 变换: {calibration ? `scale=${calibration.scale.toFixed(6)} rot=${((calibration.rotationRad * 180) / Math.PI).toFixed(2)}°` : "未完成"}
               </p>
-              <p>当前地图已投影点数: {projectedSpawns.length}</p>
+              <p>当前地图已投影点数: {imageSpawns.count}</p>
             </div>
           </CardContent>
         </Card>
@@ -1246,10 +3144,13 @@ function App() {
               onPointerDown={onPointerDown}
               onPointerMove={onPointerMove}
               onPointerUp={onPointerUp}
-              onPointerLeave={onPointerUp}
+              onPointerLeave={() => {
+                onPointerUp()
+                setHoveredSpawnKey(null)
+              }}
               onContextMenu={onViewerContextMenu}
-              onClick={() => setContextMenu((prev) => ({ ...prev, open: false }))}
-              style={{ cursor: isPanning ? "grabbing" : "grab" }}
+              onClick={onViewerClick}
+              style={{ cursor: isPanning ? "grabbing" : zoneDraft ? "crosshair" : "grab" }}
             >
               {visibleTiles.map((tile) => (
                 <img key={tile.key} src={tile.src} alt="tile" draggable={false} style={tile.style} />
@@ -1288,12 +3189,35 @@ function App() {
                   className={`absolute z-20 -translate-x-1/2 -translate-y-1/2 rounded-full border ${
                     activeMarkPointId === point.id
                       ? "h-4 w-4 border-yellow-300 bg-yellow-500 shadow-[0_0_0_4px_rgba(234,179,8,0.35)]"
-                      : "h-3 w-3 border-white bg-emerald-500"
+                      : point.id === routeStartId
+                        ? "h-3 w-3 border-white bg-sky-500"
+                        : point.id === routeEndId
+                          ? "h-3 w-3 border-white bg-rose-500"
+                          : "h-3 w-3 border-white bg-emerald-500"
                   }`}
                   style={{ left: point.screenX, top: point.screenY }}
                   title={`${point.name} (${point.center[0].toFixed(2)}, ${point.center[1].toFixed(2)}, ${point.center[2].toFixed(2)})`}
                 />
               ))}
+              {hoveredSpawn && !isPanning ? (
+                <div
+                  className="pointer-events-none absolute z-30 rounded border bg-card px-2 py-1 text-xs text-card-foreground shadow"
+                  style={{ left: hoveredSpawn.screenX + 10, top: hoveredSpawn.screenY + 10 }}
+                >
+                  <p className="font-medium">
+                    {hoveredSpawn.name ?? "未命名"}
+                    {spawnLayers.length > 1 ? <span className="text-muted-foreground"> · {hoveredSpawn.layer.name}</span> : null}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {hoveredSpawn.entry !== undefined ? `entry ${hoveredSpawn.entry} · ` : ""}guid {hoveredSpawn.id} · Lv
+                    {hoveredSpawn.levelMin === hoveredSpawn.levelMax
+                      ? hoveredSpawn.levelMin
+                      : `${hoveredSpawn.levelMin}-${hoveredSpawn.levelMax}`}
+                    {hoveredSpawn.respawnTime !== undefined ? ` · 刷新 ${hoveredSpawn.respawnTime}s` : ""}
+                    {hazardIds.has(hoveredSpawn.key) ? " · 危险点" : ""}
+                  </p>
+                </div>
+              ) : null}
               {contextMenu.open ? (
                 <div
                   className="absolute z-20 min-w-44 rounded-md border bg-card p-1 text-sm text-card-foreground shadow-lg"
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { runAutoRouteJob, type AutoRouteJobRequest } from "@/lib/auto-route-job"
+
+// Small camps on a loose grid, with a few stragglers so the dirty-point filter has something to drop.
+const points = [
+  ...Array.from({ length: 64 }, (_, index) => ({
+    id: index,
+    x: (index % 8) * 90 + (index % 3) * 7,
+    y: Math.floor(index / 8) * 90 + (index % 5) * 5,
+    z: 0,
+    level: 10,
+  })),
+  { id: 100, x: 1500, y: 1500, z: 0, level: 10 },
+  { id: 101, x: -900, y: 300, z: 0, level: 10 },
+]
+
+const request: AutoRouteJobRequest = {
+  points,
+  center: { x: 315, y: 315 },
+  autoTune: true,
+  clusterRadius: 40,
+  maxAreaRadius: 600,
+  maxStepDistance: 200,
+  avoidDenseTravelRadius: 60,
+  maxWaypoints: 10,
+  routeCount: 1,
+  minRouteSeparation: 0,
+  options: {},
+}
+
+describe("runAutoRouteJob", () => {
+  it("rebuilds the tuned route when the tuned parameters are replayed without tuning", () => {
+    const tunedJob = runAutoRouteJob(request)
+    expect(tunedJob.tuned).not.toBeNull()
+    const tuned = tunedJob.tuned!
+    const replay = runAutoRouteJob({
+      ...request,
+      autoTune: false,
+      clusterRadius: tuned.clusterRadius,
+      maxAreaRadius: tuned.maxAreaRadius,
+      maxStepDistance: tuned.maxStepDistance,
+      avoidDenseTravelRadius: tuned.avoidDenseTravelRadius,
+      dirtySupportRadius: tuned.dirtySupportRadius,
+    })
+    expect(replay.dirtySupportRadius).toBe(tuned.dirtySupportRadius)
+    expect(replay.dirtyCount).toBe(tunedJob.dirtyCount)
+    expect(replay.results.map((result) => result.route.map((point) => point.id))).toEqual(
+      tunedJob.results.map((result) => result.route.map((point) => point.id)),
+    )
+  })
+
+  it("derives the dirty support radius from the step and cluster radius by default", () => {
+    const job = runAutoRouteJob({ ...request, autoTune: false })
+    expect(job.dirtySupportRadius).toBe(400)
+  })
+})
@@ -0,0 +1,159 @@
+import {
+  computeNeighborCounts,
+  denseThreshold,
+  exploreAutoRouteParams,
+  generateAutoRoutes,
+  type AutoRouteOptions,
+  type AutoRouteResult,
+  type SpawnXYZ,
+  type TuneExploration,
+  type TunedAutoRouteParams,
+  type XY,
+} from "@/lib/auto-route"
+import { simulateRoute, type RouteSimulation } from "@/lib/route-simulation"
+
+export type AutoRouteJobRequest = {
+  points: SpawnXYZ[]
+  center: XY
+  autoTune: boolean
+  clusterRadius: number
+  maxAreaRadius: number
+  maxStepDistance: number
+  avoidDenseTravelRadius: number
+  // Set when replaying a tuned parameter set; otherwise derived from the step and cluster radius.
+  dirtySupportRadius?: number
+  maxWaypoints: number
+  routeCount: number
+  minRouteSeparation: number
+  options: AutoRouteOptions
+}
+
+export type AutoRouteJobResult = {
+  tuned: TunedAutoRouteParams | null
+  exploration: TuneExploration | null
+  clusterRadius: number
+  maxAreaRadius: number
+  maxStepDistance: number
+  avoidDenseTravelRadius: number
+  dirtySupportRadius: number
+  usedSupportCount: number
+  dirtyCount: number
+  usableCount: number
+  denseCount: number
+  results: AutoRouteResult[]
+  simulations: RouteSimulation[] | null
+}
+
+export type AutoRouteJobProgress = {
+  stage: "tune" | "route"
+  progress: number
+}
+
+export function runAutoRouteJob(
+  request: AutoRouteJobRequest,
+  onProgress?: (progress: AutoRouteJobProgress) => void,
+): AutoRouteJobResult {
+  const { points, center, options } = request
+  const verticalWeight = options.verticalWeight ?? 0
+  const routeCount = Math.max(1, request.routeCount)
+
+  let clusterRadius = request.clusterRadius
+  let maxAreaRadius = request.maxAreaRadius
+  let maxStepDistance = request.maxStepDistance
+  let avoidDenseTravelRadius = request.avoidDenseTravelRadius
+  let dirtySupportRadius = request.dirtySupportRadius ?? Math.max(maxStepDistance * 2, clusterRadius * 4)
+  const hazardIds = new Set(options.hazardIds ?? [])
+
+  let tuned: TunedAutoRouteParams | null = null
+  let exploration: TuneExploration | null = null
+  if (request.autoTune) {
+    onProgress?.({ stage: "tune", progress: 0 })
+    exploration = exploreAutoRouteParams(points, center, request.maxWaypoints * routeCount, options, (progress) =>
+      onProgress?.({ stage: "tune", progress }),
+    )
+    tuned = exploration.best
+    if (tuned) {
+      clusterRadius = Math.max(0, tuned.clusterRadius)
+      maxAreaRadius = Math.max(0, tuned.maxAreaRadius)
+      maxStepDistance = Math.max(0, tuned.maxStepDistance)
+      avoidDenseTravelRadius = Math.max(0, tuned.avoidDenseTravelRadius)
+      dirtySupportRadius = Math.max(0, tuned.dirtySupportRadius)
+    }
+  }
+
+  onProgress?.({ stage: "route", progress: 0 })
+
+  const minSupportCount = 3
+  const dirtyCounts = computeNeighborCounts(points, dirtySupportRadius, verticalWeight)
+  let dirtyIds = new Set<number>()
+  for (const point of points) {
+    const count = dirtyCounts.get(point.id) ?? 1
+    if (count < minSupportCount && !hazardIds.has(point.id)) dirtyIds.add(point.id)
+  }
+  let usablePoints = points.filter((point) => !dirtyIds.has(point.id))
+  let usedSupportCount = minSupportCount
+  if (usablePoints.length < Math.min(points.length, Math.max(60, request.maxWaypoints * 3))) {
+    const relaxedMin = 2
+    const relaxedDirtyIds = new Set<number>()
+    for (const point of points) {
+      const count = dirtyCounts.get(point.id) ?? 1
+      if (count < relaxedMin && !hazardIds.has(point.id)) relaxedDirtyIds.add(point.id)
+    }
+    const relaxedUsable = points.filter((point) => !relaxedDirtyIds.has(point.id))
+    if (relaxedUsable.length >= usablePoints.length) {
+      usablePoints = relaxedUsable
+      dirtyIds = relaxedDirtyIds
+      usedSupportCount = relaxedMin
+    }
+  }
+
+  const threshold = denseThreshold(options)
+  const denseCounts = computeNeighborCounts(usablePoints, clusterRadius, verticalWeight)
+  const denseIds = new Set<number>()
+  for (const point of usablePoints) {
+    const count = denseCounts.get(point.id) ?? 1
+    if (count >= threshold || hazardIds.has(point.id)) denseIds.add(point.id)
+  }
+
+  const results = generateAutoRoutes(usablePoints, denseIds, {
+    ...options,
+    packPolicy: options.packPolicy ? { ...options.packPolicy, pullRadius: clusterRadius } : undefined,
+    center,
+    maxAreaRadius,
+    maxStepDistance,
+    maxWaypoints: request.maxWaypoints,
+    avoidDenseTravelRadius,
+    routeCount,
+    minRouteSeparation: request.minRouteSeparation,
+  })
+
+  const { simulation } = options
+  const simulations = simulation
+    ? results.map((result) =>
+        simulateRoute(result.route, result.waypointMembers, {
+          ...simulation,
+          closedLoop: options.closedLoop,
+          verticalWeight,
+          playerLevel: simulation.playerLevel ?? options.playerLevel,
+        }),
+      )
+    : null
+
+  onProgress?.({ stage: "route", progress: 1 })
+
+  return {
+    tuned,
+    exploration,
+    clusterRadius,
+    maxAreaRadius,
+    maxStepDistance,
+    avoidDenseTravelRadius,
+    dirtySupportRadius,
+    usedSupportCount,
+    dirtyCount: dirtyIds.size,
+    usableCount: usablePoints.length,
+    denseCount: denseIds.size,
+    results,
+    simulations,
+  }
+}
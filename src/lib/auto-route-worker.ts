@@ -0,0 +1,90 @@
+import type { AutoRouteJobProgress, AutoRouteJobRequest, AutoRouteJobResult } from "@/lib/auto-route-job"
+import type { SpotScanProgress, SpotScanRequest, SpotScanResult } from "@/lib/spot-scan"
+
+export type AutoRouteWorkerRequest =
+  | { type: "run"; jobId: number; request: AutoRouteJobRequest }
+  | { type: "scan"; jobId: number; request: SpotScanRequest }
+
+export type AutoRouteWorkerProgress = AutoRouteJobProgress | SpotScanProgress
+
+export type AutoRouteWorkerResponse =
+  | ({ type: "progress"; jobId: number } & AutoRouteWorkerProgress)
+  | { type: "done"; jobId: number; result: AutoRouteJobResult }
+  | { type: "scan-done"; jobId: number; result: SpotScanResult }
+  | { type: "error"; jobId: number; message: string }
+
+type WorkerHandlers = { signal?: AbortSignal; onProgress?: (progress: AutoRouteWorkerProgress) => void }
+
+let nextJobId = 1
+
+function runWorkerJob<T>(
+  build: (jobId: number) => AutoRouteWorkerRequest,
+  takeResult: (message: AutoRouteWorkerResponse) => T | undefined,
+  handlers: WorkerHandlers,
+) {
+  const { signal, onProgress } = handlers
+  const jobId = nextJobId
+  nextJobId += 1
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Auto route job aborted", "AbortError"))
+      return
+    }
+
+    const worker = new Worker(new URL("./auto-route.worker.ts", import.meta.url), { type: "module" })
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+
+    // Tuning is synchronous inside the worker, so cancelling means terminating it.
+    const onAbort = () => {
+      finish()
+      reject(new DOMException("Auto route job aborted", "AbortError"))
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    worker.onmessage = (event: MessageEvent<AutoRouteWorkerResponse>) => {
+      const message = event.data
+      if (message.jobId !== jobId) return
+      if (message.type === "progress") {
+        const { type: _type, jobId: _jobId, ...progress } = message
+        onProgress?.(progress)
+        return
+      }
+      finish()
+      if (message.type === "error") {
+        reject(new Error(message.message))
+        return
+      }
+      const result = takeResult(message)
+      if (result === undefined) reject(new Error(`Unexpected worker response: ${message.type}`))
+      else resolve(result)
+    }
+
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || "Auto route worker failed"))
+    }
+
+    worker.postMessage(build(jobId))
+  })
+}
+
+export function runAutoRouteInWorker(request: AutoRouteJobRequest, handlers: WorkerHandlers = {}) {
+  return runWorkerJob(
+    (jobId) => ({ type: "run", jobId, request }),
+    (message) => (message.type === "done" ? message.result : undefined),
+    handlers,
+  )
+}
+
+export function scanSpotsInWorker(request: SpotScanRequest, handlers: WorkerHandlers = {}) {
+  return runWorkerJob(
+    (jobId) => ({ type: "scan", jobId, request }),
+    (message) => (message.type === "scan-done" ? message.result : undefined),
+    handlers,
+  )
+}
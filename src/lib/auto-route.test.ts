@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest"
+import {
+  generateAutoRoute,
+  generateAutoRoutes,
+  improveRoute,
+  routeCost,
+  type RouteMetric,
+  type SpawnXYZ,
+} from "@/lib/auto-route"
+
+// A 4 x 4 grid with a spacing of 10; a step of 15 allows orthogonal and diagonal moves only.
+const grid = Array.from({ length: 16 }, (_, index) => ({
+  id: index,
+  x: (index % 4) * 10,
+  y: Math.floor(index / 4) * 10,
+  z: 0,
+  level: 10,
+}))
+
+const MAX_STEP = 15
+// Dense spawns in the middle of two cells block the diagonals through them but not the cell edges.
+const dense = [
+  { id: 100, x: 15, y: 5, z: 0 },
+  { id: 101, x: 15, y: 15, z: 0 },
+]
+const AVOID_RADIUS = 4
+
+function segmentDistance(p: SpawnXYZ, a: SpawnXYZ, b: SpawnXYZ) {
+  const abx = b.x - a.x
+  const aby = b.y - a.y
+  const length2 = abx * abx + aby * aby
+  const t = length2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / length2)) : 0
+  return Math.hypot(p.x - a.x - t * abx, p.y - a.y - t * aby)
+}
+
+const linkIsValid = (a: SpawnXYZ, b: SpawnXYZ) =>
+  Math.hypot(a.x - b.x, a.y - b.y) <= MAX_STEP && dense.every((point) => segmentDistance(point, a, b) > AVOID_RADIUS)
+
+const metric: RouteMetric = {
+  cost: (a, b) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2,
+  canLink: linkIsValid,
+}
+
+const ids = (route: SpawnXYZ[]) => route.map((point) => point.id)
+
+// A valid but wasteful walk over the whole grid that zigzags along diagonals; ids are row * 4 + column.
+const zigzag = [0, 5, 1, 4, 8, 12, 9, 13, 10, 15, 14, 11, 6, 3, 2, 7].map((id) => grid[id])
+
+describe("improveRoute", () => {
+  it("lowers the cost, keeps every waypoint and only uses links the metric allows", () => {
+    expect(zigzag.slice(1).every((point, index) => linkIsValid(zigzag[index], point))).toBe(true)
+    for (const closed of [false, true]) {
+      const improved = improveRoute(zigzag, metric, closed)
+      expect(routeCost(improved, closed)).toBeLessThan(routeCost(zigzag, closed))
+      expect(ids(improved).sort((a, b) => a - b)).toEqual(ids(grid))
+      expect(improved.slice(1).every((point, index) => linkIsValid(improved[index], point))).toBe(true)
+    }
+  })
+
+  it("keeps pinned ends in place", () => {
+    const improved = improveRoute(zigzag, metric, false, true)
+    expect(improved[0]).toBe(zigzag[0])
+    expect(improved[improved.length - 1]).toBe(zigzag[zigzag.length - 1])
+    expect(routeCost(improved)).toBeLessThan(routeCost(zigzag))
+  })
+
+  it("leaves a route alone when no allowed change is cheaper", () => {
+    const row = grid.slice(0, 4)
+    expect(ids(improveRoute(row, metric))).toEqual(ids(row))
+  })
+})
+
+describe("generateAutoRoute", () => {
+  it("keeps every step within the step distance and clear of dense spawns", () => {
+    const result = generateAutoRoute([...grid, ...dense], new Set(dense.map((point) => point.id)), {
+      center: { x: 15, y: 15 },
+      maxAreaRadius: 0,
+      maxStepDistance: MAX_STEP,
+      maxWaypoints: 16,
+      avoidDenseTravelRadius: AVOID_RADIUS,
+    })
+    const route = result.route
+    expect(route.length).toBeGreaterThan(8)
+    expect(route.some((point) => point.id >= 100)).toBe(false)
+    expect(route.slice(1).every((point, index) => linkIsValid(route[index], point))).toBe(true)
+    expect(result.stats.picked).toBe(route.length)
+  })
+})
+
+describe("generateAutoRoute with fixed stops", () => {
+  const settings = {
+    center: { x: 15, y: 15 },
+    maxAreaRadius: 0,
+    maxStepDistance: MAX_STEP,
+    maxWaypoints: 8,
+    avoidDenseTravelRadius: AVOID_RADIUS,
+  }
+  const denseIds = new Set(dense.map((point) => point.id))
+  const fixedStart = { id: -1, x: -10, y: 0, z: 0 }
+  const fixedEnd = { id: -2, x: 40, y: 30, z: 0 }
+
+  it("starts and ends at the fixed stops", () => {
+    const result = generateAutoRoute([...grid, ...dense], denseIds, { ...settings, fixedStart, fixedEnd })
+    const route = result.route
+    expect(route[0]).toBe(fixedStart)
+    expect(route[route.length - 1]).toBe(fixedEnd)
+    expect(route.length).toBeLessThanOrEqual(settings.maxWaypoints)
+    expect(route.slice(1).every((point, index) => linkIsValid(route[index], point))).toBe(true)
+    expect(result.diagnostics.starts[0].reason).toBe("reached-end")
+  })
+
+  it("reports an end no step can reach", () => {
+    const farEnd = { id: -2, x: 200, y: 0, z: 0 }
+    const result = generateAutoRoute(grid, denseIds, { ...settings, fixedStart, fixedEnd: farEnd })
+    expect(result.route).toEqual([])
+    expect(result.diagnostics.starts[0].reason).toBe("end-unreachable")
+    expect(result.diagnostics.requiredWaypoints).toBeNull()
+  })
+
+  it("reports how many waypoints an end beyond the budget needs", () => {
+    const result = generateAutoRoute(grid, denseIds, { ...settings, maxWaypoints: 3, fixedStart, fixedEnd })
+    expect(result.route).toEqual([])
+    expect(result.diagnostics.starts[0].reason).toBe("end-beyond-max-waypoints")
+    expect(result.diagnostics.requiredWaypoints).toBeGreaterThan(3)
+  })
+})
+
+describe("generateAutoRoutes", () => {
+  // Two rows of ten spawns, 10 apart, so several separated routes fit side by side.
+  const field = Array.from({ length: 20 }, (_, index) => ({
+    id: index,
+    x: (index % 10) * 10,
+    y: index < 10 ? 0 : 40,
+    z: 0,
+  }))
+  const settings = {
+    center: { x: 45, y: 20 },
+    maxAreaRadius: 0,
+    maxStepDistance: 15,
+    maxWaypoints: 4,
+    avoidDenseTravelRadius: 0,
+    routeCount: 3,
+    minRouteSeparation: 12,
+  }
+
+  it("gives each route its own spawns and keeps waypoints of different routes apart", () => {
+    const results = generateAutoRoutes(field, new Set(), settings)
+    expect(results.length).toBe(3)
+    const engaged = results.flatMap((result) => result.engagedIds)
+    expect(new Set(engaged).size).toBe(engaged.length)
+    for (const [index, result] of results.entries()) {
+      for (const other of results.slice(index + 1)) {
+        for (const a of result.route) {
+          for (const b of other.route) expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThan(12)
+        }
+      }
+    }
+  })
+
+  it("lets every route share the fixed start", () => {
+    const fixedStart = { id: -1, x: 45, y: 20, z: 0 }
+    const results = generateAutoRoutes(field, new Set(), { ...settings, maxStepDistance: 30, fixedStart })
+    expect(results.length).toBeGreaterThan(1)
+    for (const result of results) expect(result.route[0]).toBe(fixedStart)
+  })
+})
@@ -1,18 +1,17 @@
-export type XY = { x: number; y: number }
-
-export type SpawnXYZ = { id: number; x: number; y: number; z: number }
-
-type SpatialIndex<T> = {
-  cellSize: number
-  cells: Map<string, T[]>
-}
+import { createZoneTester } from "@/lib/polygon"
+import { simulateRoute, type RouteSimulationSettings } from "@/lib/route-simulation"
+import { createSpatialIndex, forEachInRadius, queryRadius, someNearSegment, type SpatialIndex } from "@/lib/spatial-index"
 
-function cellKey(cx: number, cy: number) {
-  return `${cx},${cy}`
-}
+export type XY = { x: number; y: number }
 
-function toCell(value: number, cellSize: number) {
-  return Math.floor(value / cellSize)
+export type SpawnXYZ = {
+  id: number
+  x: number
+  y: number
+  z: number
+  level?: number
+  levelMin?: number
+  respawnTime?: number
 }
 
 function dist2(a: XY, b: XY) {
@@ -21,76 +20,175 @@ function dist2(a: XY, b: XY) {
   return dx * dx + dy * dy
 }
 
-function routeCost(route: SpawnXYZ[]) {
+function spawnDist2(a: SpawnXYZ, b: SpawnXYZ, verticalWeight: number) {
+  if (!(verticalWeight > 0)) return dist2(a, b)
+  const dz = (a.z - b.z) * verticalWeight
+  return dist2(a, b) + dz * dz
+}
+
+export function routeCost(route: SpawnXYZ[], closed = false, verticalWeight = 0) {
   let cost = 0
   for (let index = 0; index + 1 < route.length; index += 1) {
-    cost += dist2(route[index], route[index + 1])
+    cost += spawnDist2(route[index], route[index + 1], verticalWeight)
   }
+  if (closed && route.length > 2) cost += spawnDist2(route[route.length - 1], route[0], verticalWeight)
   return cost
 }
 
-function buildSpatialIndex<T>(items: T[], cellSize: number, getXY: (item: T) => XY): SpatialIndex<T> {
-  const cells = new Map<string, T[]>()
-  const safeCellSize = Math.max(1e-6, cellSize)
+function routeLength(route: SpawnXYZ[], closed = false, verticalWeight = 0) {
+  let length = 0
+  for (let index = 0; index + 1 < route.length; index += 1) {
+    length += Math.sqrt(spawnDist2(route[index], route[index + 1], verticalWeight))
+  }
+  if (closed && route.length > 2) length += Math.sqrt(spawnDist2(route[route.length - 1], route[0], verticalWeight))
+  return length
+}
+
+function buildSpatialIndex(points: SpawnXYZ[], cellSize: number) {
+  return createSpatialIndex(points, cellSize, (item) => item)
+}
 
-  for (const item of items) {
-    const { x, y } = getXY(item)
-    const cx = toCell(x, safeCellSize)
-    const cy = toCell(y, safeCellSize)
-    const key = cellKey(cx, cy)
-    const bucket = cells.get(key)
-    if (bucket) bucket.push(item)
-    else cells.set(key, [item])
+function dist2PointToSegment(p: SpawnXYZ, a: SpawnXYZ, b: SpawnXYZ, verticalWeight: number) {
+  const w = verticalWeight > 0 ? verticalWeight : 0
+  const abx = b.x - a.x
+  const aby = b.y - a.y
+  const abz = (b.z - a.z) * w
+  const apx = p.x - a.x
+  const apy = p.y - a.y
+  const apz = (p.z - a.z) * w
+
+  const abLen2 = abx * abx + aby * aby + abz * abz
+  if (abLen2 < 1e-12) return apx * apx + apy * apy + apz * apz
+
+  let t = (apx * abx + apy * aby + apz * abz) / abLen2
+  t = Math.max(0, Math.min(1, t))
+  const dx = apx - t * abx
+  const dy = apy - t * aby
+  const dz = apz - t * abz
+  return dx * dx + dy * dy + dz * dz
+}
+
+function reverseRange<T>(items: T[], from: number, to: number) {
+  for (let left = from, right = to; left < right; left += 1, right -= 1) {
+    const swap = items[left]
+    items[left] = items[right]
+    items[right] = swap
   }
+}
 
-  return { cellSize: safeCellSize, cells }
+export type RouteMetric = {
+  cost: (a: SpawnXYZ, b: SpawnXYZ) => number
+  canLink: (a: SpawnXYZ, b: SpawnXYZ) => boolean
 }
 
-function queryPointsWithin(index: SpatialIndex<SpawnXYZ>, center: XY, radius: number) {
-  if (!(radius > 0)) return []
-  if (index.cells.size === 0) return []
+function edgeCost(a: SpawnXYZ | undefined, b: SpawnXYZ | undefined, metric: RouteMetric) {
+  return a && b ? metric.cost(a, b) : 0
+}
 
-  const r2 = radius * radius
-  const cx = toCell(center.x, index.cellSize)
-  const cy = toCell(center.y, index.cellSize)
-  const range = Math.ceil(radius / index.cellSize)
-
-  const found: SpawnXYZ[] = []
-
-  for (let dy = -range; dy <= range; dy += 1) {
-    for (let dx = -range; dx <= range; dx += 1) {
-      const bucket = index.cells.get(cellKey(cx + dx, cy + dy))
-      if (!bucket) continue
-      for (const point of bucket) {
-        const dxw = point.x - center.x
-        const dyw = point.y - center.y
-        if (dxw * dxw + dyw * dyw <= r2) found.push(point)
+function canJoin(a: SpawnXYZ | undefined, b: SpawnXYZ | undefined, metric: RouteMetric) {
+  return !a || !b || metric.canLink(a, b)
+}
+
+function applyTwoOpt(path: SpawnXYZ[], metric: RouteMetric, fixedEnds: boolean) {
+  const n = path.length
+  const lo = fixedEnds ? 1 : 0
+  const hi = fixedEnds ? n - 2 : n - 1
+  let improved = false
+
+  for (let i = lo; i < hi; i += 1) {
+    for (let j = i + 1; j <= hi; j += 1) {
+      if (i === 0 && j === n - 1) continue
+      const before: SpawnXYZ | undefined = path[i - 1]
+      const after: SpawnXYZ | undefined = path[j + 1]
+      const first = path[i]
+      const last = path[j]
+
+      const delta = edgeCost(before, last, metric) + edgeCost(first, after, metric) - edgeCost(before, first, metric) - edgeCost(last, after, metric)
+      if (delta >= -1e-9) continue
+      if (!canJoin(before, last, metric) || !canJoin(first, after, metric)) continue
+
+      reverseRange(path, i, j)
+      improved = true
+    }
+  }
+
+  return improved
+}
+
+function applyOrOpt(path: SpawnXYZ[], metric: RouteMetric, fixedEnds: boolean, maxSegment = 3) {
+  const n = path.length
+  const lo = fixedEnds ? 1 : 0
+  const hi = fixedEnds ? n - 1 : n
+  let improved = false
+
+  for (let length = 1; length <= maxSegment && length < hi - lo; length += 1) {
+    for (let i = lo; i + length <= hi; i += 1) {
+      const head = path[i]
+      const tail = path[i + length - 1]
+      const prev: SpawnXYZ | undefined = path[i - 1]
+      const next: SpawnXYZ | undefined = path[i + length]
+      if (!canJoin(prev, next, metric)) continue
+
+      const removeGain = edgeCost(prev, head, metric) + edgeCost(tail, next, metric) - edgeCost(prev, next, metric)
+      const restAt = (position: number): SpawnXYZ | undefined =>
+        position < 0 ? undefined : position < i ? path[position] : path[position + length]
+      const restLength = n - length
+
+      let bestDelta = -1e-9
+      let bestPosition = -1
+      let bestReversed = false
+
+      for (let position = lo; position <= restLength - (n - hi); position += 1) {
+        if (position === i) continue
+        const a = restAt(position - 1)
+        const b = position < restLength ? restAt(position) : undefined
+        const base = edgeCost(a, b, metric)
+
+        const forward = edgeCost(a, head, metric) + edgeCost(tail, b, metric) - base - removeGain
+        if (forward < bestDelta && canJoin(a, head, metric) && canJoin(tail, b, metric)) {
+          bestDelta = forward
+          bestPosition = position
+          bestReversed = false
+        }
+
+        const backward = edgeCost(a, tail, metric) + edgeCost(head, b, metric) - base - removeGain
+        if (backward < bestDelta && canJoin(a, tail, metric) && canJoin(head, b, metric)) {
+          bestDelta = backward
+          bestPosition = position
+          bestReversed = true
+        }
       }
+
+      if (bestPosition < 0) continue
+
+      const segment = path.splice(i, length)
+      if (bestReversed) segment.reverse()
+      path.splice(bestPosition, 0, ...segment)
+      improved = true
     }
   }
 
-  return found
+  return improved
 }
 
-function dist2PointToSegment(p: XY, a: XY, b: XY) {
-  const abx = b.x - a.x
-  const aby = b.y - a.y
-  const apx = p.x - a.x
-  const apy = p.y - a.y
+export function improveRoute(route: SpawnXYZ[], metric: RouteMetric, closed = false, fixedEnds = closed, maxPasses = 8) {
+  if (route.length < 3) return route.slice()
 
-  const abLen2 = abx * abx + aby * aby
-  if (abLen2 < 1e-12) return apx * apx + apy * apy
+  // A loop is optimised as an open path that starts and ends on the same spawn.
+  const path = closed ? [...route, route[0]] : route.slice()
+  const pinned = closed || fixedEnds
 
-  let t = (apx * abx + apy * aby) / abLen2
-  t = Math.max(0, Math.min(1, t))
-  const cx = a.x + t * abx
-  const cy = a.y + t * aby
-  const dx = p.x - cx
-  const dy = p.y - cy
-  return dx * dx + dy * dy
+  for (let pass = 0; pass < maxPasses; pass += 1) {
+    const reversed = applyTwoOpt(path, metric, pinned)
+    const moved = applyOrOpt(path, metric, pinned)
+    if (!reversed && !moved) break
+  }
+
+  if (closed) path.pop()
+  return path
 }
 
-export function computeNeighborCounts(points: SpawnXYZ[], radius: number) {
+export function computeNeighborCounts(points: SpawnXYZ[], radius: number, verticalWeight = 0) {
   const counts = new Map<number, number>()
   if (points.length === 0) return counts
 
@@ -99,33 +197,71 @@ export function computeNeighborCounts(points: SpawnXYZ[], radius: number) {
     return counts
   }
 
-  const index = buildSpatialIndex(points, radius, (item) => ({ x: item.x, y: item.y }))
+  const index = buildSpatialIndex(points, radius)
   const r2 = radius * radius
-  const range = Math.ceil(radius / index.cellSize)
 
   for (const point of points) {
-    const cx = toCell(point.x, index.cellSize)
-    const cy = toCell(point.y, index.cellSize)
-
     let count = 0
-    for (let dy = -range; dy <= range; dy += 1) {
-      for (let dx = -range; dx <= range; dx += 1) {
-        const bucket = index.cells.get(cellKey(cx + dx, cy + dy))
-        if (!bucket) continue
-        for (const other of bucket) {
-          const dxw = other.x - point.x
-          const dyw = other.y - point.y
-          if (dxw * dxw + dyw * dyw <= r2) count += 1
-        }
-      }
-    }
+    forEachInRadius(index, point, radius, (other) => {
+      if (!(verticalWeight > 0) || spawnDist2(other, point, verticalWeight) <= r2) count += 1
+    })
     counts.set(point.id, count)
   }
 
   return counts
 }
 
-export type AutoRouteSettings = {
+export type AggroRule = {
+  baseRadius: number
+  perLevel: number
+  minRadius: number
+  maxRadius: number
+}
+
+export const DEFAULT_AGGRO_RULE: AggroRule = {
+  baseRadius: 20,
+  perLevel: 1,
+  minRadius: 5,
+  maxRadius: 45,
+}
+
+export function aggroRadius(spawnLevel: number, playerLevel: number, rule: AggroRule = DEFAULT_AGGRO_RULE) {
+  const radius = rule.baseRadius + (spawnLevel - playerLevel) * rule.perLevel
+  return Math.min(rule.maxRadius, Math.max(rule.minRadius, radius))
+}
+
+export type PackPolicy = {
+  minPull: number
+  maxPull: number
+  pullRadius?: number
+}
+
+export const DENSE_NEIGHBOR_THRESHOLD = 3
+
+export function denseThreshold(options: AutoRouteOptions = {}) {
+  return options.packPolicy ? Math.max(2, Math.floor(options.packPolicy.maxPull) + 1) : DENSE_NEIGHBOR_THRESHOLD
+}
+
+export type AutoRouteOptions = {
+  closedLoop?: boolean
+  verticalWeight?: number
+  maxClimb?: number
+  noGoZones?: XY[][]
+  playerLevel?: number
+  aggroRule?: AggroRule
+  packPolicy?: PackPolicy
+  coverageRadius?: number
+  fixedStart?: SpawnXYZ
+  fixedEnd?: SpawnXYZ
+  objective?: RouteObjective
+  simulation?: RouteSimulationSettings
+  // Spawns that must never be engaged, such as mobs other than the route's target; they are avoided like dense spawns.
+  hazardIds?: number[]
+}
+
+export type RouteObjective = "engaged" | "xp-per-hour"
+
+export type AutoRouteSettings = AutoRouteOptions & {
   center: XY
   maxAreaRadius: number
   maxStepDistance: number
@@ -139,11 +275,44 @@ export type AutoRouteStats = {
   denseInArea: number
   safeInArea: number
   picked: number
+  engaged: number
+  travelDistance: number
+  coveredPerWaypoint: number[]
+}
+
+export type AutoRouteStopReason =
+  | "max-waypoints"
+  | "no-point-in-step"
+  | "area-limit"
+  | "climb-limit"
+  | "blocked-by-zone"
+  | "blocked-by-dense"
+  | "reached-end"
+  | "end-unreachable"
+  | "end-beyond-max-waypoints"
+
+export type AutoRouteStartDiagnostics = {
+  startId: number
+  length: number
+  reason: AutoRouteStopReason
+  candidatesInStep: number
+  blockingDenseIds: number[]
+  loopTrimmed: number
+}
+
+export type AutoRouteDiagnostics = {
+  starts: AutoRouteStartDiagnostics[]
+  chosenStartId: number | null
+  blockingDenseIds: number[]
+  requiredWaypoints: number | null
 }
 
 export type AutoRouteResult = {
   route: SpawnXYZ[]
+  waypointMembers: SpawnXYZ[][]
+  engagedIds: number[]
   stats: AutoRouteStats
+  diagnostics: AutoRouteDiagnostics
 }
 
 export type TunedAutoRouteParams = {
@@ -192,10 +361,57 @@ function estimateBaseSpacing(points: SpawnXYZ[]) {
   return 0
 }
 
-export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints: number): TunedAutoRouteParams | null {
+export type TuneEvaluation = {
+  params: TunedAutoRouteParams
+  score: number
+  engaged: number
+  picked: number
+  travelDistance: number
+}
+
+export type TuneExploration = {
+  best: TunedAutoRouteParams | null
+  evaluations: TuneEvaluation[]
+  paretoFront: number[]
+}
+
+// Non-dominated evaluations: higher score, smaller step and shorter travel are all preferred.
+export function paretoFront(evaluations: TuneEvaluation[]) {
+  const dominates = (a: TuneEvaluation, b: TuneEvaluation) =>
+    a.score >= b.score &&
+    a.params.maxStepDistance <= b.params.maxStepDistance &&
+    a.travelDistance <= b.travelDistance &&
+    (a.score > b.score || a.params.maxStepDistance < b.params.maxStepDistance || a.travelDistance < b.travelDistance)
+
+  const front: number[] = []
+  for (const [index, evaluation] of evaluations.entries()) {
+    if (evaluation.picked === 0) continue
+    if (!evaluations.some((other) => other.picked > 0 && dominates(other, evaluation))) front.push(index)
+  }
+  return front
+}
+
+export function tuneAutoRouteParams(
+  points: SpawnXYZ[],
+  center: XY,
+  maxWaypoints: number,
+  options: AutoRouteOptions = {},
+  onProgress?: (progress: number) => void,
+): TunedAutoRouteParams | null {
+  return exploreAutoRouteParams(points, center, maxWaypoints, options, onProgress).best
+}
+
+export function exploreAutoRouteParams(
+  points: SpawnXYZ[],
+  center: XY,
+  maxWaypoints: number,
+  options: AutoRouteOptions = {},
+  onProgress?: (progress: number) => void,
+): TuneExploration {
+  const evaluations: TuneEvaluation[] = []
   const cappedWaypoints = Math.max(0, Math.floor(maxWaypoints))
-  if (cappedWaypoints === 0) return null
-  if (points.length === 0) return null
+  if (cappedWaypoints === 0) return { best: null, evaluations, paretoFront: [] }
+  if (points.length === 0) return { best: null, evaluations, paretoFront: [] }
 
   const localCount = Math.min(points.length, Math.max(2000, Math.min(5000, cappedWaypoints * 200)))
   const byDistance = points
@@ -208,11 +424,15 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
   const baseSpacing = baseSpacingRaw > 0 && Number.isFinite(baseSpacingRaw) ? baseSpacingRaw : 200
   const dirtySupportRadius = baseSpacing * 6
 
-  const dirtyCounts = computeNeighborCounts(points, dirtySupportRadius)
+  const verticalWeight = options.verticalWeight ?? 0
+  const zones = createZoneTester(options.noGoZones ?? [])
+  const threshold = denseThreshold(options)
+  const hazardIds = new Set(options.hazardIds ?? [])
+  const dirtyCounts = computeNeighborCounts(points, dirtySupportRadius, verticalWeight)
   const dirtyIds = new Set<number>()
   for (const point of points) {
     const count = dirtyCounts.get(point.id) ?? 1
-    if (count < 3) dirtyIds.add(point.id)
+    if (count < 3 && !hazardIds.has(point.id)) dirtyIds.add(point.id)
   }
   const cleanedPoints = points.filter((point) => !dirtyIds.has(point.id))
   const basePoints = cleanedPoints.length >= Math.min(points.length, Math.max(100, cappedWaypoints * 5)) ? cleanedPoints : points
@@ -227,18 +447,31 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
     baseSpacing * 2.0,
   ])
 
-  type Best = { params: TunedAutoRouteParams; len: number; cost: number }
+  // Throughput scoring replays each candidate route through the respawn simulator instead of counting mobs.
+  const simulation = options.objective === "xp-per-hour" ? options.simulation : undefined
+  const scoreRoute = (result: AutoRouteResult) =>
+    simulation
+      ? simulateRoute(result.route, result.waypointMembers, {
+          ...simulation,
+          closedLoop: options.closedLoop,
+          verticalWeight,
+          playerLevel: simulation.playerLevel ?? options.playerLevel,
+        }).xpPerHour
+      : result.stats.engaged
+
+  type Best = { params: TunedAutoRouteParams; score: number; cost: number }
   let best: Best | null = null
 
-  for (const clusterRadius of clusterCandidates) {
-    const counts = computeNeighborCounts(basePoints, clusterRadius)
+  for (const [clusterIndex, clusterRadius] of clusterCandidates.entries()) {
+    onProgress?.(clusterIndex / clusterCandidates.length)
+    const counts = computeNeighborCounts(basePoints, clusterRadius, verticalWeight)
     const denseIds = new Set<number>()
     for (const point of basePoints) {
       const count = counts.get(point.id) ?? 1
-      if (count >= 3) denseIds.add(point.id)
+      if (count >= threshold || hazardIds.has(point.id)) denseIds.add(point.id)
     }
 
-    const safePoints = basePoints.filter((point) => !denseIds.has(point.id))
+    const safePoints = basePoints.filter((point) => !denseIds.has(point.id) && !zones?.containsPoint(point))
     if (safePoints.length === 0) continue
 
     const safeDistances = safePoints.map((point) => Math.sqrt(dist2(center, point)))
@@ -263,11 +496,14 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
       clusterRadius * 3.2,
     ]).filter((value) => value > clusterRadius * 1.05)
 
-    for (const maxStepDistance of stepCandidates) {
+    for (const [stepIndex, maxStepDistance] of stepCandidates.entries()) {
+      onProgress?.((clusterIndex + stepIndex / stepCandidates.length) / clusterCandidates.length)
       const maxAreaRadius = areaBase + maxStepDistance * 0.35
       const avoidDenseTravelRadius = Math.max(clusterRadius * 1.15, maxStepDistance * 0.25)
 
       const result = generateAutoRoute(basePoints, denseIds, {
+        ...options,
+        packPolicy: options.packPolicy ? { ...options.packPolicy, pullRadius: clusterRadius } : undefined,
         center,
         maxAreaRadius,
         maxStepDistance,
@@ -275,31 +511,38 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
         avoidDenseTravelRadius,
       })
 
-      const len = result.route.length
-      const cost = routeCost(result.route)
+      const score = scoreRoute(result)
+      const cost = routeCost(result.route, options.closedLoop, verticalWeight)
+      evaluations.push({
+        params: { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius },
+        score,
+        engaged: result.stats.engaged,
+        picked: result.stats.picked,
+        travelDistance: result.stats.travelDistance,
+      })
 
       if (!best) {
         best = {
           params: { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius },
-          len,
+          score,
           cost,
         }
         continue
       }
-      if (len > best.len) {
+      if (score > best.score) {
         best = {
           params: { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius },
-          len,
+          score,
           cost,
         }
         continue
       }
-      if (len < best.len) continue
+      if (score < best.score) continue
 
       if (maxStepDistance < best.params.maxStepDistance) {
         best = {
           params: { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius },
-          len,
+          score,
           cost,
         }
         continue
@@ -309,7 +552,7 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
       if (cost < best.cost) {
         best = {
           params: { clusterRadius, maxAreaRadius, maxStepDistance, avoidDenseTravelRadius, dirtySupportRadius },
-          len,
+          score,
           cost,
         }
         continue
@@ -317,43 +560,151 @@ export function tuneAutoRouteParams(points: SpawnXYZ[], center: XY, maxWaypoints
     }
   }
 
-  return best?.params ?? null
+  onProgress?.(1)
+  return { best: best?.params ?? null, evaluations, paretoFront: paretoFront(evaluations) }
 }
 
-function segmentAvoidsDense(
-  a: XY,
-  b: XY,
-  denseIndex: SpatialIndex<SpawnXYZ> | null,
-  avoidRadius: number,
-) {
-  if (!denseIndex) return true
-  if (!(avoidRadius > 0)) return true
-  if (denseIndex.cells.size === 0) return true
+type PackSet = {
+  waypoints: SpawnXYZ[]
+  members: Map<number, SpawnXYZ[]>
+}
 
-  const minX = Math.min(a.x, b.x) - avoidRadius
-  const maxX = Math.max(a.x, b.x) + avoidRadius
-  const minY = Math.min(a.y, b.y) - avoidRadius
-  const maxY = Math.max(a.y, b.y) + avoidRadius
+function buildPacks(points: SpawnXYZ[], policy: PackPolicy, pullRadius: number, verticalWeight: number): PackSet {
+  const minPull = Math.max(1, Math.floor(policy.minPull))
+  const maxPull = Math.max(minPull, Math.floor(policy.maxPull))
+  const radius = Math.max(0, pullRadius)
+  const r2 = radius * radius
+  const index = radius > 0 ? buildSpatialIndex(points, radius) : null
+
+  const seeds = points
+    .map((point) => {
+      const nearby = index ? queryRadius(index, point, radius) : [point]
+      const members = nearby
+        .map((member) => ({ member, d2: spawnDist2(member, point, verticalWeight) }))
+        .filter((item) => item.d2 <= r2 || item.member.id === point.id)
+        .sort((a, b) => a.d2 - b.d2 || a.member.id - b.member.id)
+        .map((item) => item.member)
+      return { point, members }
+    })
+    .sort((a, b) => {
+      const sizeA = Math.min(maxPull, a.members.length)
+      const sizeB = Math.min(maxPull, b.members.length)
+      if (sizeA !== sizeB) return sizeB - sizeA
+      if (a.members.length !== b.members.length) return a.members.length - b.members.length
+      return a.point.id - b.point.id
+    })
+
+  const assigned = new Set<number>()
+  const waypoints: SpawnXYZ[] = []
+  const members = new Map<number, SpawnXYZ[]>()
+
+  for (const seed of seeds) {
+    if (assigned.has(seed.point.id)) continue
+    const pack = seed.members.filter((member) => !assigned.has(member.id)).slice(0, maxPull)
+    if (pack.length < minPull) continue
+
+    let x = 0
+    let y = 0
+    let z = 0
+    let level: number | undefined
+    for (const member of pack) {
+      assigned.add(member.id)
+      x += member.x
+      y += member.y
+      z += member.z
+      if (member.level !== undefined) level = Math.max(level ?? -Infinity, member.level)
+    }
 
-  const minCx = toCell(minX, denseIndex.cellSize)
-  const maxCx = toCell(maxX, denseIndex.cellSize)
-  const minCy = toCell(minY, denseIndex.cellSize)
-  const maxCy = toCell(maxY, denseIndex.cellSize)
+    const waypoint: SpawnXYZ = { id: seed.point.id, x: x / pack.length, y: y / pack.length, z: z / pack.length, level }
+    waypoints.push(waypoint)
+    members.set(waypoint.id, pack)
+  }
 
-  const r2 = avoidRadius * avoidRadius
+  return { waypoints, members }
+}
 
-  for (let cy = minCy; cy <= maxCy; cy += 1) {
-    for (let cx = minCx; cx <= maxCx; cx += 1) {
-      const bucket = denseIndex.cells.get(cellKey(cx, cy))
-      if (!bucket) continue
-      for (const dense of bucket) {
-        const d2 = dist2PointToSegment({ x: dense.x, y: dense.y }, a, b)
-        if (d2 <= r2) return false
-      }
+// Candidate positions sit at the centroid of each spawn's neighbourhood; a candidate is dropped when its circle
+// would also pull a dense spawn. Circles overlap, so the route scores them by what they newly cover.
+function buildCoverage(
+  points: SpawnXYZ[],
+  dense: SpawnXYZ[],
+  radius: number,
+  verticalWeight: number,
+): PackSet {
+  const r2 = radius * radius
+  const index = buildSpatialIndex(points, radius)
+  const denseIndex = dense.length > 0 ? buildSpatialIndex(dense, radius) : null
+  const within = (center: SpawnXYZ, candidates: SpawnXYZ[]) =>
+    candidates.filter((member) => spawnDist2(member, center, verticalWeight) <= r2)
+
+  const waypoints: SpawnXYZ[] = []
+  const members = new Map<number, SpawnXYZ[]>()
+
+  for (const point of points) {
+    const nearby = within(point, queryRadius(index, point, radius))
+    let x = 0
+    let y = 0
+    let z = 0
+    for (const member of nearby) {
+      x += member.x
+      y += member.y
+      z += member.z
     }
+    const center: SpawnXYZ = { id: point.id, x: x / nearby.length, y: y / nearby.length, z: z / nearby.length }
+    if (denseIndex && within(center, queryRadius(denseIndex, center, radius)).length > 0) continue
+
+    const covered = within(center, queryRadius(index, center, radius))
+    if (covered.length === 0) continue
+    let level: number | undefined
+    for (const member of covered) {
+      if (member.level !== undefined) level = Math.max(level ?? -Infinity, member.level)
+    }
+    waypoints.push({ ...center, level })
+    members.set(center.id, covered)
   }
 
-  return true
+  return { waypoints, members }
+}
+
+function findDenseBlocker(
+  a: SpawnXYZ,
+  b: SpawnXYZ,
+  denseIndex: SpatialIndex<SpawnXYZ> | null,
+  avoidRadius: number,
+  verticalWeight = 0,
+  radiusOf?: (dense: SpawnXYZ) => number,
+): SpawnXYZ | null {
+  if (!denseIndex) return null
+  if (!(avoidRadius > 0)) return null
+  if (denseIndex.items.length === 0) return null
+
+  const r2 = avoidRadius * avoidRadius
+  let blocker: SpawnXYZ | null = null
+  someNearSegment(denseIndex, a, b, avoidRadius, (dense, planarD2) => {
+    let blocks: boolean
+    if (!radiusOf && !(verticalWeight > 0)) {
+      blocks = planarD2 <= r2
+    } else {
+      const d2 = verticalWeight > 0 ? dist2PointToSegment(dense, a, b, verticalWeight) : planarD2
+      const radius = radiusOf ? radiusOf(dense) : avoidRadius
+      blocks = d2 <= radius * radius
+    }
+    if (blocks) blocker = dense
+    return blocks
+  })
+
+  return blocker
+}
+
+function segmentAvoidsDense(
+  a: SpawnXYZ,
+  b: SpawnXYZ,
+  denseIndex: SpatialIndex<SpawnXYZ> | null,
+  avoidRadius: number,
+  verticalWeight = 0,
+  radiusOf?: (dense: SpawnXYZ) => number,
+) {
+  return findDenseBlocker(a, b, denseIndex, avoidRadius, verticalWeight, radiusOf) === null
 }
 
 export function generateAutoRoute(
@@ -367,52 +718,133 @@ export function generateAutoRoute(
   const maxAreaRadius = settings.maxAreaRadius
   const maxStep = settings.maxStepDistance
   const avoidRadius = settings.avoidDenseTravelRadius
+  const closed = settings.closedLoop ?? false
+  const verticalWeight = settings.verticalWeight ?? 0
+  const maxClimb = settings.maxClimb ?? 0
+  const zones = createZoneTester(settings.noGoZones ?? [])
+  const playerLevel = settings.playerLevel ?? 0
+  const aggroRule = settings.aggroRule ?? DEFAULT_AGGRO_RULE
 
   const maxAreaR2 = maxAreaRadius > 0 ? maxAreaRadius * maxAreaRadius : Infinity
 
   const inArea = points.filter((point) => dist2(settings.center, point) <= maxAreaR2)
   const denseInArea = inArea.filter((point) => denseIds.has(point.id))
-  const safeInArea = inArea.filter((point) => !denseIds.has(point.id))
+
+  // With a player level every dense spawn avoids by its own aggro radius; unlevelled ones keep the shared radius.
+  const radiusOf =
+    playerLevel > 0
+      ? (dense: SpawnXYZ) => (dense.level !== undefined ? aggroRadius(dense.level, playerLevel, aggroRule) : avoidRadius)
+      : undefined
+  let travelAvoidRadius = avoidRadius
+  if (radiusOf) {
+    for (const point of points) {
+      if (denseIds.has(point.id)) travelAvoidRadius = Math.max(travelAvoidRadius, radiusOf(point))
+    }
+  }
 
   const travelR2 =
-    maxAreaRadius > 0 && avoidRadius > 0
-      ? (maxAreaRadius + avoidRadius) * (maxAreaRadius + avoidRadius)
+    maxAreaRadius > 0 && travelAvoidRadius > 0
+      ? (maxAreaRadius + travelAvoidRadius) * (maxAreaRadius + travelAvoidRadius)
       : Infinity
 
   const denseForTravel =
-    avoidRadius > 0
+    travelAvoidRadius > 0
       ? points.filter((point) => denseIds.has(point.id) && dist2(settings.center, point) <= travelR2)
       : []
 
   const denseIndex =
-    avoidRadius > 0 && denseForTravel.length > 0
-      ? buildSpatialIndex(denseForTravel, avoidRadius, (item) => ({ x: item.x, y: item.y }))
+    travelAvoidRadius > 0 && denseForTravel.length > 0
+      ? buildSpatialIndex(denseForTravel, travelAvoidRadius)
       : null
 
-  if (maxWaypoints === 0 || safeInArea.length === 0) {
-    return {
-      route: [],
-      stats: {
-        total,
-        inArea: inArea.length,
-        denseInArea: denseInArea.length,
-        safeInArea: safeInArea.length,
-        picked: 0,
-      },
-    }
+  const safeInArea = inArea.filter(
+    (point) =>
+      !denseIds.has(point.id) &&
+      !zones?.containsPoint(point) &&
+      (!radiusOf || segmentAvoidsDense(point, point, denseIndex, travelAvoidRadius, verticalWeight, radiusOf)),
+  )
+
+  // Under a pack policy each waypoint is the centroid of a pullable pack instead of a single spawn;
+  // in coverage mode it is a position whose radius circle covers as many safe spawns as possible.
+  const packPolicy = settings.packPolicy
+  const coverageRadius = settings.coverageRadius ?? 0
+  const packs = packPolicy
+    ? buildPacks(safeInArea, packPolicy, packPolicy.pullRadius ?? avoidRadius, verticalWeight)
+    : coverageRadius > 0
+      ? buildCoverage(
+          safeInArea,
+          points.filter(
+            (point) =>
+              denseIds.has(point.id) &&
+              (!Number.isFinite(maxAreaR2) || dist2(settings.center, point) <= (maxAreaRadius + coverageRadius) ** 2),
+          ),
+          coverageRadius,
+          verticalWeight,
+        )
+      : null
+  const waypointPool = packs
+    ? packs.waypoints.filter(
+        (point) =>
+          !zones?.containsPoint(point) &&
+          segmentAvoidsDense(point, point, denseIndex, travelAvoidRadius, verticalWeight, radiusOf),
+      )
+    : safeInArea
+
+  // Fixed stops (flight master, vendor, ...) are not spawns: they engage nothing and ignore the area limit.
+  // A loop has a single fixed stop, which is both its start and its end.
+  const fixedStart = settings.fixedStart ?? (closed ? settings.fixedEnd : undefined)
+  const fixedEnd = closed ? fixedStart : settings.fixedEnd
+  const fixedIds = new Set([fixedStart?.id, fixedEnd?.id].filter((id): id is number => id !== undefined))
+  const endOffset = closed ? 1 : 0
+
+  const membersOf = (point: SpawnXYZ) => (fixedIds.has(point.id) ? [] : packs?.members.get(point.id) ?? [point])
+  const engagedBy = (point: SpawnXYZ) => membersOf(point).length
+  const newlyEngaged = (point: SpawnXYZ, covered: Set<number>) =>
+    membersOf(point).reduce((sum, member) => sum + (covered.has(member.id) ? 0 : 1), 0)
+  const engagedIdsOf = (route: SpawnXYZ[]) => [...new Set(route.flatMap((point) => membersOf(point).map((member) => member.id)))]
+  const engagedIn = (route: SpawnXYZ[]) => engagedIdsOf(route).length
+  const coveredPerWaypoint = (route: SpawnXYZ[]) => {
+    const covered = new Set<number>()
+    return route.map((point) => {
+      const count = newlyEngaged(point, covered)
+      for (const member of membersOf(point)) covered.add(member.id)
+      return count
+    })
+  }
+
+  const emptyResult = (diagnostics: AutoRouteDiagnostics): AutoRouteResult => ({
+    route: [],
+    waypointMembers: [],
+    engagedIds: [],
+    diagnostics,
+    stats: {
+      total,
+      inArea: inArea.length,
+      denseInArea: denseInArea.length,
+      safeInArea: safeInArea.length,
+      picked: 0,
+      engaged: 0,
+      travelDistance: 0,
+      coveredPerWaypoint: [],
+    },
+  })
+
+  if (maxWaypoints === 0 || (waypointPool.length === 0 && !fixedStart)) {
+    return emptyResult({ starts: [], chosenStartId: null, blockingDenseIds: [], requiredWaypoints: null })
   }
 
   const maxStep2 = maxStep > 0 ? maxStep * maxStep : Infinity
   const safeIndex =
     maxStep > 0
-      ? buildSpatialIndex(safeInArea, maxStep, (item) => ({ x: item.x, y: item.y }))
+      ? buildSpatialIndex(waypointPool, maxStep)
       : null
-  const stepNeighborCounts = maxStep > 0 ? computeNeighborCounts(safeInArea, maxStep) : new Map<number, number>()
+  const stepNeighborCounts =
+    maxStep > 0 ? computeNeighborCounts(waypointPool, maxStep, verticalWeight) : new Map<number, number>()
 
   const closestToCenter = (() => {
     let best: SpawnXYZ | null = null
     let bestD2 = Infinity
-    for (const point of safeInArea) {
+    for (const point of waypointPool) {
       const d2 = dist2(settings.center, point)
       if (d2 < bestD2) {
         bestD2 = d2
@@ -422,42 +854,191 @@ export function generateAutoRoute(
     return best
   })()
 
-  const scoredStarts = safeInArea
+  const scoredStarts = waypointPool
     .map((point) => ({
       point,
+      engaged: engagedBy(point),
       local: (stepNeighborCounts.get(point.id) ?? 1) - 1,
       centerD2: dist2(settings.center, point),
     }))
     .sort((a, b) => {
+      if (a.engaged !== b.engaged) return b.engaged - a.engaged
       if (a.local !== b.local) return b.local - a.local
       if (a.centerD2 !== b.centerD2) return a.centerD2 - b.centerD2
       return a.point.id - b.point.id
     })
 
+  const withinStep = (a: SpawnXYZ, b: SpawnXYZ) =>
+    spawnDist2(a, b, verticalWeight) <= maxStep2 && (!(maxClimb > 0) || Math.abs(a.z - b.z) <= maxClimb)
+
+  const canLink = (a: SpawnXYZ, b: SpawnXYZ) =>
+    withinStep(a, b) &&
+    !zones?.blocksSegment(a, b) &&
+    segmentAvoidsDense(a, b, denseIndex, travelAvoidRadius, verticalWeight, radiusOf)
+
+  const metric: RouteMetric = {
+    cost: (a, b) => spawnDist2(a, b, verticalWeight),
+    canLink,
+  }
+
+  const stepCandidates = (point: SpawnXYZ) =>
+    safeIndex && maxStep > 0 && Number.isFinite(maxStep2) ? queryRadius(safeIndex, point, maxStep) : waypointPool
+
+  type EndSearch = { hops: Map<number, number>; next: Map<number, SpawnXYZ> }
+
+  // Breadth-first from the end, so every pool waypoint knows how many steps it is from finishing.
+  const searchToEnd = (end: SpawnXYZ, blocked: Set<number>): EndSearch => {
+    const hops = new Map<number, number>([[end.id, 0]])
+    const next = new Map<number, SpawnXYZ>()
+    const queue = [end]
+    for (let head = 0; head < queue.length; head += 1) {
+      const node = queue[head]
+      const nodeHops = hops.get(node.id) ?? 0
+      for (const neighbor of stepCandidates(node)) {
+        if (hops.has(neighbor.id) || blocked.has(neighbor.id)) continue
+        if (!canLink(node, neighbor)) continue
+        hops.set(neighbor.id, nodeHops + 1)
+        next.set(neighbor.id, node)
+        queue.push(neighbor)
+      }
+    }
+    return { hops, next }
+  }
+
+  const pathToEnd = (from: SpawnXYZ, end: SpawnXYZ, search: EndSearch) => {
+    if (from.id === end.id || canLink(from, end)) return [end]
+    let best: SpawnXYZ | null = null
+    let bestHops = Infinity
+    for (const neighbor of stepCandidates(from)) {
+      if (neighbor.id === from.id) continue
+      const hops = search.hops.get(neighbor.id)
+      if (hops === undefined || hops >= bestHops || !canLink(from, neighbor)) continue
+      best = neighbor
+      bestHops = hops
+    }
+    if (!best) return null
+    const path = [best]
+    for (let node = search.next.get(best.id); node; node = search.next.get(node.id)) path.push(node)
+    return path
+  }
+
+  // Keeps as much of the greedy walk as possible, then takes the shortest unvisited way to the end.
+  const finishAtEnd = (route: SpawnXYZ[], end: SpawnXYZ) => {
+    for (let keep = route.length; keep >= 1; keep -= 1) {
+      const prefix = route.slice(0, keep)
+      const last = prefix[keep - 1]
+      const tail =
+        last.id === end.id || canLink(last, end)
+          ? [end]
+          : pathToEnd(last, end, searchToEnd(end, new Set(prefix.map((point) => point.id))))
+      if (tail && keep + tail.length - endOffset <= maxWaypoints) {
+        return closed ? [...prefix, ...tail.slice(0, -1)] : [...prefix, ...tail]
+      }
+    }
+    return null
+  }
+
+  const endSearch = fixedEnd ? searchToEnd(fixedEnd, new Set()) : null
+  const waypointsToEnd = (point: SpawnXYZ) => {
+    if (!fixedEnd || !endSearch) return 0
+    if (point.id === fixedEnd.id) return 1
+    const hops =
+      point.id === fixedStart?.id ? pathToEnd(point, fixedEnd, endSearch)?.length : endSearch.hops.get(point.id)
+    return hops === undefined ? Infinity : 1 + hops - endOffset
+  }
+  const fitsBeforeEnd = (point: SpawnXYZ, length: number) => !fixedEnd || length - 1 + waypointsToEnd(point) <= maxWaypoints
+
   const startCandidates: SpawnXYZ[] = []
-  const maxStartCandidates = Math.min(12, scoredStarts.length)
-  for (let index = 0; index < maxStartCandidates; index += 1) {
-    startCandidates.push(scoredStarts[index].point)
+  if (fixedStart) {
+    if (fitsBeforeEnd(fixedStart, 1)) startCandidates.push(fixedStart)
+  } else {
+    for (const { point } of scoredStarts) {
+      if (startCandidates.length >= 12) break
+      if (fitsBeforeEnd(point, 1)) startCandidates.push(point)
+    }
+    if (
+      closestToCenter &&
+      fitsBeforeEnd(closestToCenter, 1) &&
+      !startCandidates.some((point) => point.id === closestToCenter.id)
+    ) {
+      startCandidates.push(closestToCenter)
+    }
   }
-  if (closestToCenter && !startCandidates.some((point) => point.id === closestToCenter.id)) {
-    startCandidates.push(closestToCenter)
+
+  const closeLoop = (route: SpawnXYZ[]) => {
+    if (route.length < 3) return route
+    let end = route.length - 1
+    while (end > 1 && !canLink(route[end], route[0])) end -= 1
+    return route.slice(0, end + 1)
+  }
+
+  // Overlapping coverage circles can leave an open route ending on waypoints that pull nothing new.
+  const trimIdleTail = (route: SpawnXYZ[]) => {
+    const counts = coveredPerWaypoint(route)
+    let end = route.length
+    while (end > 1 && counts[end - 1] === 0 && !fixedIds.has(route[end - 1].id)) end -= 1
+    return end === route.length ? route : route.slice(0, end)
+  }
+
+  let outsideIndex: SpatialIndex<SpawnXYZ> | null = null
+  const leavesArea = (current: SpawnXYZ) => {
+    if (!Number.isFinite(maxAreaR2) || !Number.isFinite(maxStep2)) return false
+    if (!outsideIndex) {
+      const outside = points.filter((point) => !denseIds.has(point.id) && dist2(settings.center, point) > maxAreaR2)
+      outsideIndex = buildSpatialIndex(outside, maxStep)
+    }
+    return queryRadius(outsideIndex, current, maxStep).some((point) => withinStep(current, point))
+  }
+
+  // Re-examines the stall point only, so the greedy loop itself stays lean.
+  const diagnoseStall = (current: SpawnXYZ, visited: Set<number>) => {
+    const nearby =
+      safeIndex && maxStep > 0 && Number.isFinite(maxStep2) ? queryRadius(safeIndex, current, maxStep) : waypointPool
+    const blockers = new Set<number>()
+    let candidatesInStep = 0
+    let climbBlocked = 0
+    let zoneBlocked = 0
+
+    for (const candidate of nearby) {
+      if (candidate.id === current.id || visited.has(candidate.id)) continue
+      if (spawnDist2(current, candidate, verticalWeight) > maxStep2) continue
+      candidatesInStep += 1
+      if (!withinStep(current, candidate)) {
+        climbBlocked += 1
+        continue
+      }
+      if (zones?.blocksSegment(current, candidate)) {
+        zoneBlocked += 1
+        continue
+      }
+      const blocker = findDenseBlocker(current, candidate, denseIndex, travelAvoidRadius, verticalWeight, radiusOf)
+      if (blocker) blockers.add(blocker.id)
+    }
+
+    let reason: AutoRouteStopReason = "no-point-in-step"
+    if (blockers.size > 0) reason = "blocked-by-dense"
+    else if (zoneBlocked > 0) reason = "blocked-by-zone"
+    else if (climbBlocked > 0) reason = "climb-limit"
+    else if (leavesArea(current)) reason = "area-limit"
+
+    return { reason, candidatesInStep, blockingDenseIds: [...blockers] }
   }
 
   const buildGreedyPath = (start: SpawnXYZ) => {
     const visited = new Set<number>()
+    const covered = new Set<number>()
     const route: SpawnXYZ[] = []
     route.push(start)
     visited.add(start.id)
+    for (const member of membersOf(start)) covered.add(member.id)
 
     while (route.length < maxWaypoints) {
       const current = route[route.length - 1]
 
-      const candidates =
-        safeIndex && maxStep > 0 && Number.isFinite(maxStep2)
-          ? queryPointsWithin(safeIndex, current, maxStep)
-          : safeInArea.slice()
+      const candidates = stepCandidates(current)
 
       let best: SpawnXYZ | null = null
+      let bestEngaged = -1
       let bestDegree = -1
       let bestLocal = -1
       let bestStepD2 = Infinity
@@ -466,26 +1047,39 @@ export function generateAutoRoute(
       for (const candidate of candidates) {
         if (candidate.id === current.id) continue
         if (visited.has(candidate.id)) continue
+        if (!fitsBeforeEnd(candidate, route.length + 1)) continue
 
-        const stepD2 = dist2(current, candidate)
-        if (stepD2 > maxStep2) continue
-        if (!segmentAvoidsDense(current, candidate, denseIndex, avoidRadius)) continue
+        const stepD2 = spawnDist2(current, candidate, verticalWeight)
+        if (!canLink(current, candidate)) continue
 
         let degree = 0
         if (safeIndex && maxStep > 0 && Number.isFinite(maxStep2)) {
-          const neighbors = queryPointsWithin(safeIndex, candidate, maxStep)
+          const neighbors = queryRadius(safeIndex, candidate, maxStep)
           for (const neighbor of neighbors) {
             if (neighbor.id === candidate.id) continue
             if (visited.has(neighbor.id)) continue
+            if (!withinStep(candidate, neighbor)) continue
             degree += 1
           }
         } else {
-          degree = safeInArea.length - visited.size
+          degree = waypointPool.length - visited.size
         }
 
+        const engaged = newlyEngaged(candidate, covered)
         const local = (stepNeighborCounts.get(candidate.id) ?? 1) - 1
         const centerD2 = dist2(settings.center, candidate)
 
+        if (engaged > bestEngaged) {
+          best = candidate
+          bestEngaged = engaged
+          bestDegree = degree
+          bestLocal = local
+          bestStepD2 = stepD2
+          bestCenterD2 = centerD2
+          continue
+        }
+        if (engaged < bestEngaged) continue
+
         if (degree > bestDegree) {
           best = candidate
           bestDegree = degree
@@ -523,38 +1117,152 @@ export function generateAutoRoute(
       if (!best) break
       route.push(best)
       visited.add(best.id)
+      for (const member of membersOf(best)) covered.add(member.id)
+    }
+
+    if (fixedEnd) {
+      const finished = finishAtEnd(route, fixedEnd)
+      const finalRoute = finished ?? []
+      const diagnostics: AutoRouteStartDiagnostics = {
+        startId: start.id,
+        length: finalRoute.length,
+        reason: finished ? "reached-end" : "end-unreachable",
+        candidatesInStep: 0,
+        blockingDenseIds: [],
+        loopTrimmed: 0,
+      }
+      return { route: finalRoute, diagnostics }
     }
 
-    return route
+    const stall =
+      route.length >= maxWaypoints
+        ? { reason: "max-waypoints" as const, candidatesInStep: 0, blockingDenseIds: [] }
+        : diagnoseStall(route[route.length - 1], visited)
+    const finalRoute = closed ? closeLoop(route) : trimIdleTail(route)
+    const diagnostics: AutoRouteStartDiagnostics = {
+      startId: start.id,
+      length: finalRoute.length,
+      ...stall,
+      loopTrimmed: route.length - finalRoute.length,
+    }
+
+    return { route: finalRoute, diagnostics }
+  }
+
+  if (startCandidates.length === 0 && fixedEnd && endSearch) {
+    // No start reaches the end within the budget. When it is unreachable at all, report the dense spawns walling off the end's side.
+    const required = Math.min(...(fixedStart ? [fixedStart] : waypointPool).map(waypointsToEnd))
+    const reason: AutoRouteStopReason = Number.isFinite(required) ? "end-beyond-max-waypoints" : "end-unreachable"
+    const blockers = new Set<number>()
+    if (reason === "end-unreachable") {
+      const component = new Set([fixedEnd.id, ...endSearch.next.keys()])
+      for (const point of [fixedEnd, ...waypointPool.filter((item) => component.has(item.id))]) {
+        for (const id of diagnoseStall(point, component).blockingDenseIds) blockers.add(id)
+      }
+    }
+    return emptyResult({
+      starts: [
+        {
+          startId: fixedStart?.id ?? fixedEnd.id,
+          length: 0,
+          reason,
+          candidatesInStep: 0,
+          blockingDenseIds: [...blockers],
+          loopTrimmed: 0,
+        },
+      ],
+      chosenStartId: null,
+      blockingDenseIds: [...blockers],
+      requiredWaypoints: Number.isFinite(required) ? required : null,
+    })
   }
 
-  let bestRoute = buildGreedyPath(startCandidates[0] ?? safeInArea[0])
-  let bestCost = routeCost(bestRoute)
+  const first = buildGreedyPath(startCandidates[0] ?? waypointPool[0])
+  const startDiagnostics = [first.diagnostics]
+  let bestRoute = first.route
+  let bestStartId = first.diagnostics.startId
+  let bestEngaged = engagedIn(bestRoute)
+  let bestCost = routeCost(bestRoute, closed, verticalWeight)
 
   for (const start of startCandidates.slice(1)) {
-    const route = buildGreedyPath(start)
-    if (route.length > bestRoute.length) {
+    const { route, diagnostics } = buildGreedyPath(start)
+    startDiagnostics.push(diagnostics)
+    const engaged = engagedIn(route)
+    if (engaged > bestEngaged) {
       bestRoute = route
-      bestCost = routeCost(route)
+      bestStartId = start.id
+      bestEngaged = engaged
+      bestCost = routeCost(route, closed, verticalWeight)
       continue
     }
-    if (route.length === bestRoute.length) {
-      const cost = routeCost(route)
+    if (engaged === bestEngaged) {
+      const cost = routeCost(route, closed, verticalWeight)
       if (cost < bestCost) {
         bestRoute = route
+        bestStartId = start.id
         bestCost = cost
       }
     }
   }
 
+  const improvedRoute = improveRoute(bestRoute, metric, closed, fixedIds.size > 0)
+  if (routeCost(improvedRoute, closed, verticalWeight) < bestCost) bestRoute = improvedRoute
+
   return {
     route: bestRoute,
+    waypointMembers: bestRoute.map(membersOf),
+    engagedIds: engagedIdsOf(bestRoute),
+    diagnostics: {
+      starts: startDiagnostics,
+      chosenStartId: bestStartId,
+      blockingDenseIds: [...new Set(startDiagnostics.flatMap((item) => item.blockingDenseIds))],
+      requiredWaypoints: fixedEnd ? Math.min(...startCandidates.map(waypointsToEnd)) : null,
+    },
     stats: {
       total,
       inArea: inArea.length,
       denseInArea: denseInArea.length,
       safeInArea: safeInArea.length,
       picked: bestRoute.length,
+      engaged: bestEngaged,
+      travelDistance: routeLength(bestRoute, closed, verticalWeight),
+      coveredPerWaypoint: coveredPerWaypoint(bestRoute),
     },
   }
 }
+
+export type MultiAutoRouteSettings = AutoRouteSettings & {
+  routeCount: number
+  minRouteSeparation: number
+}
+
+export function generateAutoRoutes(
+  points: SpawnXYZ[],
+  denseIds: Set<number>,
+  settings: MultiAutoRouteSettings,
+): AutoRouteResult[] {
+  const routeCount = Math.max(0, Math.floor(settings.routeCount))
+  const separation = Math.max(0, settings.minRouteSeparation)
+  const safePoints = points.filter((point) => !denseIds.has(point.id))
+  const safeIndex = separation > 0 ? buildSpatialIndex(safePoints, separation) : null
+
+  const claimed = new Set<number>()
+  const results: AutoRouteResult[] = []
+
+  for (let index = 0; index < routeCount; index += 1) {
+    const pool = claimed.size > 0 ? points.filter((point) => denseIds.has(point.id) || !claimed.has(point.id)) : points
+    const result = generateAutoRoute(pool, denseIds, settings)
+    // The first result is kept even when empty so callers can still report its stats.
+    if (result.route.length === 0 && index > 0) break
+    results.push(result)
+    if (result.route.length === 0) break
+
+    for (const id of result.engagedIds) claimed.add(id)
+    for (const waypoint of result.route) {
+      if (!safeIndex || waypoint.id === settings.fixedStart?.id || waypoint.id === settings.fixedEnd?.id) continue
+      for (const nearby of queryRadius(safeIndex, waypoint, separation)) claimed.add(nearby.id)
+    }
+  }
+
+  return results
+}
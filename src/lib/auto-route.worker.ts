@@ -0,0 +1,23 @@
+import { runAutoRouteJob } from "@/lib/auto-route-job"
+import type { AutoRouteWorkerRequest, AutoRouteWorkerResponse } from "@/lib/auto-route-worker"
+import { scanGrindingSpots } from "@/lib/spot-scan"
+
+function post(message: AutoRouteWorkerResponse) {
+  self.postMessage(message)
+}
+
+self.onmessage = (event: MessageEvent<AutoRouteWorkerRequest>) => {
+  const message = event.data
+  const { jobId } = message
+  try {
+    if (message.type === "scan") {
+      const result = scanGrindingSpots(message.request, (progress) => post({ type: "progress", jobId, ...progress }))
+      post({ type: "scan-done", jobId, result })
+      return
+    }
+    const result = runAutoRouteJob(message.request, (progress) => post({ type: "progress", jobId, ...progress }))
+    post({ type: "done", jobId, result })
+  } catch (error) {
+    post({ type: "error", jobId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
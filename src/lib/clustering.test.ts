@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest"
+import { dbscan } from "@/lib/clustering"
+
+describe("dbscan", () => {
+  it("spans a cluster's levels from the lowest minimum to the highest maximum", () => {
+    const points = [
+      { id: 1, x: 0, y: 0, z: 0, levelMin: 10, level: 12 },
+      { id: 2, x: 5, y: 0, z: 0, levelMin: 11, level: 14 },
+      { id: 3, x: 0, y: 5, z: 0, level: 13 },
+    ]
+    const { clusters } = dbscan(points, { eps: 10, minPoints: 3 })
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0]).toMatchObject({ levelMin: 10, levelMax: 14 })
+  })
+})
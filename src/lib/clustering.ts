@@ -0,0 +1,111 @@
+import type { SpawnXYZ, XY } from "@/lib/auto-route"
+import { convexHull } from "@/lib/polygon"
+import { createSpatialIndex, queryRadius } from "@/lib/spatial-index"
+
+export type DbscanOptions = {
+  eps: number
+  minPoints: number
+  verticalWeight?: number
+}
+
+export type SpawnCluster = {
+  id: number
+  members: SpawnXYZ[]
+  hull: XY[]
+  center: XY
+  levelMin?: number
+  levelMax?: number
+}
+
+export type ClusteringResult = {
+  clusters: SpawnCluster[]
+  noiseIds: number[]
+  clusterOf: Map<number, number>
+}
+
+function spawnDist2(a: SpawnXYZ, b: SpawnXYZ, verticalWeight: number) {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  const dz = verticalWeight > 0 ? (a.z - b.z) * verticalWeight : 0
+  return dx * dx + dy * dy + dz * dz
+}
+
+function describeCluster(id: number, members: SpawnXYZ[]): SpawnCluster {
+  let x = 0
+  let y = 0
+  let levelMin: number | undefined
+  let levelMax: number | undefined
+  for (const member of members) {
+    x += member.x
+    y += member.y
+    // `level` is the top of a spawn's range, so the cluster spans the lowest bottom to the highest top.
+    if (member.level !== undefined) {
+      levelMin = Math.min(levelMin ?? Infinity, member.levelMin ?? member.level)
+      levelMax = Math.max(levelMax ?? -Infinity, member.level)
+    }
+  }
+  return {
+    id,
+    members,
+    hull: convexHull(members),
+    center: { x: x / members.length, y: y / members.length },
+    levelMin,
+    levelMax,
+  }
+}
+
+// Clusters are numbered from 1 by descending size, so labels stay stable for the same input.
+export function dbscan(points: SpawnXYZ[], options: DbscanOptions): ClusteringResult {
+  const eps = Math.max(0, options.eps)
+  const minPoints = Math.max(1, Math.floor(options.minPoints))
+  const verticalWeight = options.verticalWeight ?? 0
+  if (points.length === 0 || !(eps > 0)) {
+    return { clusters: [], noiseIds: points.map((point) => point.id), clusterOf: new Map() }
+  }
+
+  const index = createSpatialIndex(points, eps, (item) => item)
+  const eps2 = eps * eps
+  const neighborsOf = (point: SpawnXYZ) =>
+    queryRadius(index, point, eps).filter((other) => !(verticalWeight > 0) || spawnDist2(other, point, verticalWeight) <= eps2)
+
+  const labels = new Map<number, number>()
+  const groups: SpawnXYZ[][] = []
+
+  for (const point of points) {
+    if (labels.has(point.id)) continue
+    const neighbors = neighborsOf(point)
+    if (neighbors.length < minPoints) continue
+
+    const group: SpawnXYZ[] = []
+    const label = groups.length
+    groups.push(group)
+    const queue = [point]
+    labels.set(point.id, label)
+
+    for (let head = 0; head < queue.length; head += 1) {
+      const current = queue[head]
+      group.push(current)
+      const around = current === point ? neighbors : neighborsOf(current)
+      if (around.length < minPoints) continue
+      for (const other of around) {
+        if (labels.has(other.id)) continue
+        labels.set(other.id, label)
+        queue.push(other)
+      }
+    }
+  }
+
+  const order = groups.map((_, label) => label).sort((a, b) => groups[b].length - groups[a].length || a - b)
+  const renumbered = new Map(order.map((label, rank) => [label, rank + 1]))
+  const clusters = order.map((label) => describeCluster(renumbered.get(label) ?? 0, groups[label]))
+
+  const clusterOf = new Map<number, number>()
+  const noiseIds: number[] = []
+  for (const point of points) {
+    const label = labels.get(point.id)
+    if (label === undefined) noiseIds.push(point.id)
+    else clusterOf.set(point.id, renumbered.get(label) ?? 0)
+  }
+
+  return { clusters, noiseIds, clusterOf }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import { createCreatureSqlParser, parseCreatureSql } from "@/lib/creature-sql"
+
+describe("parseCreatureSql", () => {
+  it("reads multi-row inserts and joins creature_template", () => {
+    const creature = [
+      "-- dump",
+      "INSERT INTO `world`.`creature` (`guid`, `id1`, `map`, `position_x`, `position_y`, `position_z`, `spawntimesecs`) VALUES",
+      "(1, 100, 0, -1.5, 2.25, 3, 300),",
+      "(2, 100, 0, 4, 5, 6, 0),",
+      "(3, 200, 1, 7, 8, 9, 120);",
+    ].join("\n")
+    const template = "INSERT INTO creature_template (entry, name, minlevel, maxlevel, faction) VALUES (100, 'Kobold''s \\\"Pal\\\"', 3, 5, 22);"
+    const result = parseCreatureSql([
+      { name: "creature.sql", text: creature },
+      { name: "creature_template.sql", text: template },
+    ])
+
+    expect(result.creatureRows).toBe(3)
+    expect(result.templateRows).toBe(1)
+    expect(result.missingTemplates).toBe(1)
+    expect(result.errors).toEqual([])
+    expect(result.spawns[0]).toEqual({
+      id: 1,
+      positionX: -1.5,
+      positionY: 2.25,
+      positionZ: 3,
+      map: 0,
+      faction: 22,
+      levelMin: 3,
+      levelMax: 5,
+      respawnTime: 300,
+      entry: 100,
+      name: 'Kobold\'s "Pal"',
+    })
+    expect(result.spawns[2]).toMatchObject({ id: 3, levelMin: 0, levelMax: 0, faction: 0 })
+  })
+
+  it("splits statements across chunk boundaries without cutting strings or comments", () => {
+    const text = [
+      "/* header; still a comment */",
+      "INSERT INTO creature_template (entry, name, minlevel, maxlevel, faction) VALUES (7, 'a;b''c', 1, 2, 3);",
+      "-- INSERT INTO creature VALUES (9);",
+      "# another; comment",
+      'INSERT INTO creature (guid, id1, map, position_x, position_y, position_z, Comment) VALUES (1, 7, 0, -1, -2, 3, "x;y"),',
+      "(2, 7, 0, 1, 2, 4, '');",
+    ].join("\n")
+    const whole = parseCreatureSql([{ name: "a.sql", text }])
+    const parser = createCreatureSqlParser()
+    const reader = parser.openSource("a.sql")
+    for (const char of text) reader.push(char)
+    reader.end()
+    const streamed = parser.finish()
+
+    expect(whole.errors).toEqual([])
+    expect(whole.spawns.map((spawn) => [spawn.id, spawn.name, spawn.positionZ])).toEqual([
+      [1, "a;b'c", 3],
+      [2, "a;b'c", 4],
+    ])
+    expect(streamed.errors).toEqual([])
+    expect(streamed.columns.count).toBe(2)
+    expect(streamed.columns.names).toEqual(["a;b'c"])
+  })
+
+  it("reports an unterminated string with its source and line", () => {
+    const result = parseCreatureSql([{ name: "broken.sql", text: "INSERT INTO creature VALUES\n(1, 'oops);" }])
+    expect(result.errors[0]).toEqual({ source: "broken.sql", line: 2, reason: "syntax-error", text: "(1, 'oops);" })
+  })
+
+  it("tells AzerothCore and TrinityCore rows apart when the dump has no column list", () => {
+    const azerothCore = "INSERT INTO `creature` VALUES (1,100,0,0,0,12,9,1,1,0,-10.5,20.5,30,1.5,300,5,0,42,0,1,0,0,0,'',12340,0,NULL);"
+    const azerothCoreShort = "INSERT INTO `creature` VALUES (2,100,0,0,0,12,9,1,1,0,-11,21,31,1.5,300,5,0,42,0,1,0,0,0,'',12340);"
+    const trinityCore = "INSERT INTO `creature` VALUES (3,100,1,14,362,1,1,0,0,-12,22,32,0.5,120,0,0,42,0,0,0,0,0,'','',12340);"
+    const trinityCoreOld = "INSERT INTO `creature` VALUES (4,100,1,14,362,1,1,0,0,-13,23,33,0.5,120,0,0,42,0,0,0,0,0,'',12340);"
+    const result = parseCreatureSql([{ name: "world.sql", text: [azerothCore, azerothCoreShort, trinityCore, trinityCoreOld].join("\n") }])
+    expect(result.errors).toEqual([])
+    expect(result.spawns.map((spawn) => [spawn.id, spawn.map, spawn.positionX, spawn.positionY, spawn.positionZ])).toEqual([
+      [1, 0, -10.5, 20.5, 30],
+      [2, 0, -11, 21, 31],
+      [3, 1, -12, 22, 32],
+      [4, 1, -13, 23, 33],
+    ])
+    expect(result.spawns.map((spawn) => spawn.respawnTime)).toEqual([300, 300, 120, 120])
+  })
+
+  it("uses the dump's CREATE TABLE and reports rows that do not fit", () => {
+    const text = [
+      "CREATE TABLE IF NOT EXISTS `creature` (",
+      "  `guid` int unsigned NOT NULL AUTO_INCREMENT,",
+      "  `map` smallint NOT NULL DEFAULT '0',",
+      "  `position_x` float NOT NULL DEFAULT '0',",
+      "  `position_y` float NOT NULL DEFAULT '0',",
+      "  `position_z` float NOT NULL DEFAULT '0',",
+      "  `id` int NOT NULL,",
+      "  PRIMARY KEY (`guid`),",
+      "  KEY `idx_map` (`map`)",
+      ") ENGINE=InnoDB;",
+      "INSERT INTO `creature` VALUES (1, 530, 1, 2, 3, 77), (2, 530, 4, 5);",
+    ].join("\n")
+    const result = parseCreatureSql([{ name: "custom.sql", text }])
+    expect(result.spawns).toEqual([
+      { id: 1, positionX: 1, positionY: 2, positionZ: 3, map: 530, faction: 0, levelMin: 0, levelMax: 0, entry: 77 },
+    ])
+    expect(result.errors).toEqual([
+      { source: "custom.sql", line: 11, reason: "column-mismatch", text: "creature (2, 530, 4…)" },
+    ])
+  })
+
+  it("reports rows that match no known layout instead of guessing", () => {
+    const result = parseCreatureSql([{ name: "odd.sql", text: "INSERT INTO creature VALUES (1, 0, 1, 2, 3);" }])
+    expect(result.spawns).toEqual([])
+    expect(result.errors.map((error) => error.reason)).toEqual(["column-mismatch"])
+  })
+
+  it("reads templates with or without the model columns", () => {
+    const withModels = "INSERT INTO creature_template VALUES (100,0,0,0,0,0,11,0,0,0,'Wolf','',NULL,0,5,6,0,32,1);"
+    const withoutModels = "INSERT INTO creature_template VALUES (200,0,0,0,0,0,'Bear',NULL,NULL,0,7,8,0,44,1);"
+    const spawns = "INSERT INTO creature (guid, id1, map, position_x, position_y, position_z) VALUES (1,100,0,1,1,1),(2,200,0,2,2,2);"
+    const result = parseCreatureSql([{ name: "all.sql", text: [withModels, withoutModels, spawns].join("\n") }])
+    expect(result.errors).toEqual([])
+    expect(result.spawns.map((spawn) => [spawn.name, spawn.levelMin, spawn.levelMax, spawn.faction])).toEqual([
+      ["Wolf", 5, 6, 32],
+      ["Bear", 7, 8, 44],
+    ])
+  })
+})
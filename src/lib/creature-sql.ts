@@ -0,0 +1,602 @@
+import { createSpawnColumnBuilder, spawnColumnsToList, type SpawnColumns } from "@/lib/spawn-columns"
+import { MAX_IMPORT_ERRORS, type ImportedSpawn, type SpawnImportError } from "@/lib/spawn-import"
+
+type SqlValue = string | number | null
+
+type SqlToken =
+  | { kind: "word"; value: string; line: number }
+  | { kind: "value"; value: SqlValue; line: number }
+  | { kind: "symbol"; value: string; line: number }
+
+type SqlInsert = {
+  source: string
+  table: string
+  columns: string[] | null
+  rows: { line: number; values: SqlValue[] }[]
+}
+
+type CreatureTemplate = {
+  name?: string
+  levelMin?: number
+  levelMax?: number
+  faction?: number
+}
+
+export type SqlSource = {
+  name: string
+  text: string
+}
+
+export type CreatureSqlImportResult = {
+  spawns: ImportedSpawn[]
+  errors: SpawnImportError[]
+  errorCount: number
+  creatureRows: number
+  templateRows: number
+  missingTemplates: number
+}
+
+type TableLayout = {
+  columns: string[]
+  // Text columns hold strings; every other known column holds a number. NULL fits either.
+  text: string[]
+  // Exact layouts describe the whole table; prefix layouts only its leading columns.
+  exact: boolean
+}
+
+const AZEROTHCORE_CREATURE = [
+  "guid",
+  "id1",
+  "id2",
+  "id3",
+  "map",
+  "zoneId",
+  "areaId",
+  "spawnMask",
+  "phaseMask",
+  "equipment_id",
+  "position_x",
+  "position_y",
+  "position_z",
+  "orientation",
+  "spawntimesecs",
+  "wander_distance",
+  "currentwaypoint",
+  "curhealth",
+  "curmana",
+  "MovementType",
+  "npcflag",
+  "unit_flags",
+  "dynamicflags",
+  "ScriptName",
+  "VerifiedBuild",
+  "CreateObject",
+  "Comment",
+]
+
+const TRINITYCORE_CREATURE = [
+  "guid",
+  "id",
+  "map",
+  "zoneId",
+  "areaId",
+  "spawnMask",
+  "phaseMask",
+  "modelid",
+  "equipment_id",
+  "position_x",
+  "position_y",
+  "position_z",
+  "orientation",
+  "spawntimesecs",
+  "wander_distance",
+  "currentwaypoint",
+  "curhealth",
+  "curmana",
+  "MovementType",
+  "npcflag",
+  "unit_flags",
+  "dynamicflags",
+  "ScriptName",
+  "StringId",
+  "VerifiedBuild",
+]
+
+const TEMPLATE_PREFIX = ["entry", "difficulty_entry_1", "difficulty_entry_2", "difficulty_entry_3", "KillCredit1", "KillCredit2"]
+const TEMPLATE_SUFFIX = ["name", "subname", "IconName", "gossip_menu_id", "minlevel", "maxlevel", "exp", "faction"]
+const TEXT_COLUMNS = ["ScriptName", "StringId", "Comment", "name", "subname", "IconName"]
+
+// mysqldump omits the column list unless --complete-insert is set. The dump's own CREATE TABLE is used when it has
+// one; otherwise each row is matched against the known layouts by width and by which columns hold text, which
+// tells AzerothCore and TrinityCore apart even where their widths agree.
+const KNOWN_LAYOUTS: Record<string, TableLayout[] | undefined> = {
+  creature: [
+    // AzerothCore with id1-id3, before and after CreateObject/Comment were added.
+    { columns: AZEROTHCORE_CREATURE, text: TEXT_COLUMNS, exact: true },
+    { columns: AZEROTHCORE_CREATURE.slice(0, 25), text: TEXT_COLUMNS, exact: true },
+    // TrinityCore 3.3.5 with and without StringId; older AzerothCore used the same 24 columns.
+    { columns: TRINITYCORE_CREATURE, text: TEXT_COLUMNS, exact: true },
+    { columns: TRINITYCORE_CREATURE.filter((column) => column !== "StringId"), text: TEXT_COLUMNS, exact: true },
+  ],
+  // Template rows are long and vary by core, but only their leading columns are read.
+  creature_template: [
+    { columns: [...TEMPLATE_PREFIX, "modelid1", "modelid2", "modelid3", "modelid4", ...TEMPLATE_SUFFIX], text: TEXT_COLUMNS, exact: false },
+    { columns: [...TEMPLATE_PREFIX, ...TEMPLATE_SUFFIX], text: TEXT_COLUMNS, exact: false },
+  ],
+}
+
+function layoutFits(layout: TableLayout, values: SqlValue[]) {
+  if (layout.exact ? values.length !== layout.columns.length : values.length < layout.columns.length) return false
+  return layout.columns.every((column, index) => {
+    const value = values[index]
+    return value === null || typeof value === (layout.text.includes(column) ? "string" : "number")
+  })
+}
+
+const ESCAPES: Record<string, string | undefined> = {
+  "0": "\0",
+  b: "\b",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  Z: "\x1a",
+}
+
+// `firstLine` is the file line the text starts on, so tokens and errors carry file line numbers.
+function tokenize(text: string, firstLine: number, errors: SpawnImportError[]) {
+  const tokens: SqlToken[] = []
+  let line = firstLine
+  let index = 0
+
+  const lineText = (at: number) => text.split("\n")[at - firstLine]?.trim() ?? ""
+
+  while (index < text.length) {
+    const char = text[index]
+    if (char === "\n") {
+      line += 1
+      index += 1
+    } else if (/\s/.test(char)) {
+      index += 1
+    } else if (char === "#" || (char === "-" && text[index + 1] === "-")) {
+      while (index < text.length && text[index] !== "\n") index += 1
+    } else if (char === "/" && text[index + 1] === "*") {
+      const end = text.indexOf("*/", index + 2)
+      const stop = end < 0 ? text.length : end + 2
+      for (let at = index; at < stop; at += 1) if (text[at] === "\n") line += 1
+      index = stop
+    } else if (char === "'" || char === '"') {
+      const start = line
+      let value = ""
+      let closed = false
+      index += 1
+      while (index < text.length) {
+        const next = text[index]
+        if (next === "\\") {
+          const escaped = text[index + 1] ?? ""
+          if (escaped === "\n") line += 1
+          value += ESCAPES[escaped] ?? escaped
+          index += 2
+        } else if (next === char && text[index + 1] === char) {
+          value += char
+          index += 2
+        } else if (next === char) {
+          closed = true
+          index += 1
+          break
+        } else {
+          if (next === "\n") line += 1
+          value += next
+          index += 1
+        }
+      }
+      if (!closed) {
+        errors.push({ line: start, reason: "syntax-error", text: lineText(start) })
+        break
+      }
+      tokens.push({ kind: "value", value, line: start })
+    } else if (char === "`") {
+      const end = text.indexOf("`", index + 1)
+      if (end < 0) {
+        errors.push({ line, reason: "syntax-error", text: lineText(line) })
+        break
+      }
+      tokens.push({ kind: "word", value: text.slice(index + 1, end), line })
+      index = end + 1
+    } else if (/^-?\.?[0-9]/.test(text.slice(index, index + 3))) {
+      const match = /^-?(0x[0-9a-fA-F]+|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?)/i.exec(text.slice(index, index + 64))
+      const raw = match?.[0] ?? char
+      tokens.push({ kind: "value", value: Number(raw), line })
+      index += raw.length
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z0-9_$.]+/.exec(text.slice(index, index + 256))
+      const word = match?.[0] ?? char
+      if (word.toUpperCase() === "NULL") tokens.push({ kind: "value", value: null, line })
+      else tokens.push({ kind: "word", value: word, line })
+      index += word.length
+    } else {
+      tokens.push({ kind: "symbol", value: char, line })
+      index += 1
+    }
+  }
+  return tokens
+}
+
+const CREATE_TABLE_KEYWORDS = new Set(["PRIMARY", "KEY", "UNIQUE", "INDEX", "FULLTEXT", "SPATIAL", "CONSTRAINT", "FOREIGN", "CHECK"])
+
+// Collects INSERT/REPLACE statements and records the column order of CREATE TABLE statements in `tables`, and
+// skips everything else up to the next semicolon.
+function parseInserts(source: string, tokens: SqlToken[], tables: Map<string, string[]>, errors: SpawnImportError[]) {
+  const inserts: SqlInsert[] = []
+  let index = 0
+
+  const isWord = (token: SqlToken | undefined, word: string) =>
+    token?.kind === "word" && token.value.toUpperCase() === word
+  const isSymbol = (token: SqlToken | undefined, symbol: string) => token?.kind === "symbol" && token.value === symbol
+  const skipStatement = () => {
+    while (index < tokens.length && !isSymbol(tokens[index], ";")) index += 1
+    index += 1
+  }
+
+  const readTableName = () => {
+    const tableToken = tokens[index]
+    if (tableToken?.kind !== "word") return null
+    let table = tableToken.value
+    index += 1
+    // Schema-qualified names such as `world`.`creature` arrive as word, dot, word.
+    while (isSymbol(tokens[index], ".") && tokens[index + 1]?.kind === "word") {
+      table = `${table}.${tokens[index + 1].value}`
+      index += 2
+    }
+    return table.split(".").pop()?.toLowerCase() ?? ""
+  }
+
+  // Column definitions are the first word after the opening parenthesis or a top-level comma.
+  const readCreateTable = () => {
+    index += 2
+    if (isWord(tokens[index], "IF")) index += 3
+    const table = readTableName()
+    if (table === null || !isSymbol(tokens[index], "(")) return
+    const columns: string[] = []
+    let depth = 0
+    let expectColumn = false
+    while (index < tokens.length && !isSymbol(tokens[index], ";")) {
+      const token = tokens[index]
+      if (isSymbol(token, "(")) {
+        depth += 1
+        expectColumn = depth === 1
+      } else if (isSymbol(token, ")")) {
+        depth -= 1
+        if (depth === 0) break
+      } else if (depth === 1 && isSymbol(token, ",")) {
+        expectColumn = true
+      } else if (expectColumn) {
+        if (token.kind === "word" && !CREATE_TABLE_KEYWORDS.has(token.value.toUpperCase())) columns.push(token.value)
+        expectColumn = false
+      }
+      index += 1
+    }
+    if (columns.length > 0) tables.set(table, columns)
+  }
+
+  while (index < tokens.length) {
+    const start = tokens[index]
+    if (isWord(start, "CREATE") && isWord(tokens[index + 1], "TABLE")) {
+      readCreateTable()
+      skipStatement()
+      continue
+    }
+    if (!isWord(start, "INSERT") && !isWord(start, "REPLACE")) {
+      skipStatement()
+      continue
+    }
+    index += 1
+    while (isWord(tokens[index], "IGNORE") || isWord(tokens[index], "LOW_PRIORITY") || isWord(tokens[index], "DELAYED")) {
+      index += 1
+    }
+    if (isWord(tokens[index], "INTO")) index += 1
+
+    const table = readTableName()
+    if (table === null) {
+      errors.push({ line: start.line, reason: "syntax-error", text: "INSERT" })
+      skipStatement()
+      continue
+    }
+
+    let columns: string[] | null = null
+    if (isSymbol(tokens[index], "(")) {
+      columns = []
+      index += 1
+      while (index < tokens.length && !isSymbol(tokens[index], ")")) {
+        const token = tokens[index]
+        if (token.kind === "word") columns.push(token.value)
+        index += 1
+      }
+      index += 1
+    }
+
+    if (!isWord(tokens[index], "VALUES") && !isWord(tokens[index], "VALUE")) {
+      errors.push({ line: start.line, reason: "syntax-error", text: `INSERT INTO ${table}` })
+      skipStatement()
+      continue
+    }
+    index += 1
+
+    const rows: SqlInsert["rows"] = []
+    while (isSymbol(tokens[index], "(")) {
+      const line = tokens[index].line
+      const values: SqlValue[] = []
+      index += 1
+      while (index < tokens.length && !isSymbol(tokens[index], ")")) {
+        const token = tokens[index]
+        if (token.kind === "value") values.push(token.value)
+        else if (token.kind === "word") values.push(token.value)
+        index += 1
+      }
+      index += 1
+      rows.push({ line, values })
+      if (isSymbol(tokens[index], ",")) index += 1
+    }
+    inserts.push({ source, table, columns, rows })
+    skipStatement()
+  }
+  return inserts
+}
+
+function rowReader(columns: string[]) {
+  const positions = new Map(columns.map((column, index) => [column.toLowerCase(), index]))
+  return (values: SqlValue[], ...names: string[]) => {
+    for (const name of names) {
+      const position = positions.get(name)
+      if (position !== undefined) return values[position]
+    }
+    return undefined
+  }
+}
+
+type RowReader = ReturnType<typeof rowReader>
+
+// Resolves the column order of each row: the INSERT's own column list, then the dump's CREATE TABLE, then the known
+// layouts. A row whose width does not match gets no reader and is reported instead of being read from wrong columns.
+// `tables` fills up as the dump streams in, so a CREATE TABLE applies to the inserts that follow it.
+function columnResolver(table: string, tables: Map<string, string[]>) {
+  const readers = new Map<string[], RowReader>()
+  const readerFor = (columns: string[]) => {
+    let reader = readers.get(columns)
+    if (!reader) {
+      reader = rowReader(columns)
+      readers.set(columns, reader)
+    }
+    return reader
+  }
+  const layouts = KNOWN_LAYOUTS[table] ?? []
+  let lastLayout: TableLayout | undefined
+
+  return (insert: SqlInsert, values: SqlValue[]) => {
+    const columns = insert.columns ?? tables.get(table)
+    if (columns) return columns.length === values.length ? readerFor(columns) : null
+    const layout = lastLayout && layoutFits(lastLayout, values) ? lastLayout : layouts.find((item) => layoutFits(item, values))
+    if (!layout) return null
+    lastLayout = layout
+    return readerFor(layout.columns)
+  }
+}
+
+function toNumber(value: SqlValue | undefined) {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+  return undefined
+}
+
+type StatementMode = "code" | "'" | '"' | "`" | "line-comment" | "block-comment"
+
+// Reads `creature` rows from SQL dumps and joins `creature_template` rows from any of the same files for name,
+// level and faction. Files are fed in chunks and cut into statements at semicolons outside strings, quoted names
+// and comments, so only one statement is tokenized at a time. Creature rows go straight into typed columns; only
+// the templates are kept, and they are joined in `finish` because a template file may come after the spawns.
+// Spawns without a template keep level 0 and faction 0.
+export function createCreatureSqlParser() {
+  const builder = createSpawnColumnBuilder()
+  const tables = new Map<string, string[]>()
+  const templates = new Map<number, CreatureTemplate>()
+  const seen = new Set<number>()
+  const errors: SpawnImportError[] = []
+  let errorCount = 0
+  let creatureRows = 0
+  let templateRows = 0
+  const templateColumns = columnResolver("creature_template", tables)
+  const creatureColumns = columnResolver("creature", tables)
+
+  // Only the first MAX_IMPORT_ERRORS errors are kept, as in the text import.
+  const report = (error: SpawnImportError) => {
+    errorCount += 1
+    if (errors.length < MAX_IMPORT_ERRORS) errors.push(error)
+  }
+
+  const readTemplate = (insert: SqlInsert, row: SqlInsert["rows"][number]) => {
+    const read = templateColumns(insert, row.values)
+    if (!read) {
+      report({ source: insert.source, line: row.line, reason: "column-mismatch", text: "creature_template" })
+      return
+    }
+    const entry = toNumber(read(row.values, "entry"))
+    if (entry === undefined) {
+      report({
+        source: insert.source,
+        line: row.line,
+        reason: "missing-value",
+        field: "entry",
+        text: "creature_template",
+      })
+      return
+    }
+    templateRows += 1
+    const name = read(row.values, "name")
+    templates.set(entry, {
+      name: typeof name === "string" && name !== "" ? name : undefined,
+      levelMin: toNumber(read(row.values, "minlevel")),
+      levelMax: toNumber(read(row.values, "maxlevel")),
+      faction: toNumber(read(row.values, "faction", "factiona", "faction_a")),
+    })
+  }
+
+  const readCreature = (insert: SqlInsert, row: SqlInsert["rows"][number]) => {
+    creatureRows += 1
+    const text = `creature (${row.values.slice(0, 3).join(", ")}…)`
+    const read = creatureColumns(insert, row.values)
+    if (!read) {
+      report({ source: insert.source, line: row.line, reason: "column-mismatch", text })
+      return
+    }
+    const values = {
+      id: toNumber(read(row.values, "guid")),
+      positionX: toNumber(read(row.values, "position_x")),
+      positionY: toNumber(read(row.values, "position_y")),
+      positionZ: toNumber(read(row.values, "position_z")),
+      map: toNumber(read(row.values, "map")),
+    }
+    const missing = (Object.keys(values) as (keyof typeof values)[]).find((field) => values[field] === undefined)
+    if (missing) {
+      report({ source: insert.source, line: row.line, reason: "missing-value", field: missing, text })
+      return
+    }
+    const id = values.id ?? 0
+    if (seen.has(id)) {
+      report({ source: insert.source, line: row.line, reason: "duplicate-id", field: "id", text })
+      return
+    }
+    seen.add(id)
+
+    const entry = toNumber(read(row.values, "id1", "id"))
+    const respawnTime = toNumber(read(row.values, "spawntimesecs"))
+    builder.push({
+      id,
+      positionX: values.positionX ?? 0,
+      positionY: values.positionY ?? 0,
+      positionZ: values.positionZ ?? 0,
+      map: values.map ?? 0,
+      faction: 0,
+      levelMin: 0,
+      levelMax: 0,
+      ...(respawnTime !== undefined && respawnTime > 0 ? { respawnTime } : {}),
+      ...(entry !== undefined ? { entry } : {}),
+    })
+  }
+
+  const readStatement = (source: string, text: string, firstLine: number) => {
+    const statementErrors: SpawnImportError[] = []
+    const inserts = parseInserts(source, tokenize(text, firstLine, statementErrors), tables, statementErrors)
+    for (const error of statementErrors) report({ ...error, source })
+    for (const insert of inserts) {
+      if (insert.table === "creature_template") for (const row of insert.rows) readTemplate(insert, row)
+      else if (insert.table === "creature") for (const row of insert.rows) readCreature(insert, row)
+    }
+  }
+
+  // Splits one file into statements. The last character of a chunk is left unscanned until the next chunk arrives,
+  // since "--", "/*" and "*/" need one character of lookahead.
+  const openSource = (source: string) => {
+    let pending = ""
+    let scanned = 0
+    let statementStart = 0
+    let statementLine = 1
+    let line = 1
+    let mode: StatementMode = "code"
+    let escaped = false
+
+    const scan = (limit: number) => {
+      for (; scanned < limit; scanned += 1) {
+        const char = pending[scanned]
+        if (char === "\n") line += 1
+        if (mode === "code") {
+          if (char === ";") {
+            readStatement(source, pending.slice(statementStart, scanned + 1), statementLine)
+            statementStart = scanned + 1
+            statementLine = line
+          } else if (char === "'" || char === '"' || char === "`") {
+            mode = char
+          } else if (char === "#" || (char === "-" && pending[scanned + 1] === "-")) {
+            mode = "line-comment"
+          } else if (char === "/" && pending[scanned + 1] === "*") {
+            mode = "block-comment"
+            scanned += 1
+          }
+        } else if (mode === "line-comment") {
+          if (char === "\n") mode = "code"
+        } else if (mode === "block-comment") {
+          if (char === "*" && pending[scanned + 1] === "/") {
+            mode = "code"
+            scanned += 1
+          }
+        } else if (escaped) {
+          escaped = false
+        } else if (char === "\\" && mode !== "`") {
+          escaped = true
+        } else if (char === mode) {
+          // A doubled quote closes and reopens the string, which leaves the split points unchanged.
+          mode = "code"
+        }
+      }
+    }
+
+    return {
+      push: (chunk: string) => {
+        pending = pending.slice(statementStart) + chunk
+        scanned -= statementStart
+        statementStart = 0
+        scan(pending.length - 1)
+      },
+      // A trailing statement without a semicolon is still read, so an unterminated string is reported.
+      end: () => {
+        scan(pending.length)
+        const rest = pending.slice(statementStart)
+        if (rest.trim() !== "") readStatement(source, rest, statementLine)
+        pending = ""
+        scanned = 0
+        statementStart = 0
+      },
+    }
+  }
+
+  const finish = () => {
+    const columns: SpawnColumns = builder.finish()
+    const nameIndexes = new Map<string, number>()
+    let missingTemplates = 0
+    for (let row = 0; row < columns.count; row += 1) {
+      const entry = columns.entry[row]
+      const template = Number.isNaN(entry) ? undefined : templates.get(entry)
+      if (!template) {
+        missingTemplates += 1
+        continue
+      }
+      const levelMin = template.levelMin ?? template.levelMax ?? 0
+      columns.levelMin[row] = levelMin
+      columns.levelMax[row] = template.levelMax ?? levelMin
+      columns.faction[row] = template.faction ?? 0
+      if (!template.name) continue
+      let nameIndex = nameIndexes.get(template.name)
+      if (nameIndex === undefined) {
+        nameIndex = columns.names.length
+        columns.names.push(template.name)
+        nameIndexes.set(template.name, nameIndex)
+      }
+      columns.nameIndex[row] = nameIndex
+    }
+    return { columns, errors, errorCount, creatureRows, templateRows, missingTemplates }
+  }
+
+  return { openSource, finish, count: builder.count }
+}
+
+export function parseCreatureSql(sources: SqlSource[]): CreatureSqlImportResult {
+  const parser = createCreatureSqlParser()
+  for (const source of sources) {
+    const reader = parser.openSource(source.name)
+    reader.push(source.text)
+    reader.end()
+  }
+  const { columns, ...summary } = parser.finish()
+  return { spawns: spawnColumnsToList(columns), ...summary }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { convexHull, createZoneTester, pointInPolygon, segmentsIntersect } from "@/lib/polygon"
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+]
+
+describe("pointInPolygon", () => {
+  it("tells inside from outside, including for concave shapes", () => {
+    expect(pointInPolygon({ x: 5, y: 5 }, square)).toBe(true)
+    expect(pointInPolygon({ x: 15, y: 5 }, square)).toBe(false)
+    const notch = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 5, y: 4 }, { x: 0, y: 10 }]
+    expect(pointInPolygon({ x: 5, y: 8 }, notch)).toBe(false)
+    expect(pointInPolygon({ x: 5, y: 2 }, notch)).toBe(true)
+  })
+})
+
+describe("segmentsIntersect", () => {
+  it("handles crossing, parallel and touching segments", () => {
+    expect(segmentsIntersect({ x: 0, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 2 }, { x: 2, y: 0 })).toBe(true)
+    expect(segmentsIntersect({ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }, { x: 2, y: 1 })).toBe(false)
+    expect(segmentsIntersect({ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 5 })).toBe(true)
+  })
+})
+
+describe("createZoneTester", () => {
+  it("blocks segments passing through a zone even when both ends are outside", () => {
+    const tester = createZoneTester([square])
+    expect(tester?.blocksSegment({ x: -5, y: 5 }, { x: 15, y: 5 })).toBe(true)
+    expect(tester?.blocksSegment({ x: -5, y: 15 }, { x: 15, y: 15 })).toBe(false)
+    expect(createZoneTester([[{ x: 0, y: 0 }, { x: 1, y: 1 }]])).toBeNull()
+  })
+})
+
+describe("convexHull", () => {
+  it("drops interior and collinear points", () => {
+    const hull = convexHull([...square, { x: 5, y: 5 }, { x: 5, y: 0 }, { x: 3, y: 7 }])
+    expect(hull).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+    ])
+  })
+
+  it("returns small inputs unchanged but sorted", () => {
+    expect(convexHull([{ x: 2, y: 1 }, { x: 1, y: 1 }])).toEqual([{ x: 1, y: 1 }, { x: 2, y: 1 }])
+  })
+})
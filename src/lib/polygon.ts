@@ -0,0 +1,119 @@
+import type { XY } from "@/lib/auto-route"
+
+type Bounds = { minX: number; maxX: number; minY: number; maxY: number }
+
+type PreparedPolygon = { points: XY[]; bounds: Bounds }
+
+function boundsOf(points: XY[]): Bounds {
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const point of points) {
+    if (point.x < minX) minX = point.x
+    if (point.x > maxX) maxX = point.x
+    if (point.y < minY) minY = point.y
+    if (point.y > maxY) maxY = point.y
+  }
+  return { minX, maxX, minY, maxY }
+}
+
+function cross(o: XY, a: XY, b: XY) {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+function onSegment(p: XY, a: XY, b: XY) {
+  return (
+    Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) && Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y)
+  )
+}
+
+export function segmentsIntersect(a: XY, b: XY, c: XY, d: XY) {
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true
+
+  if (d1 === 0 && onSegment(a, c, d)) return true
+  if (d2 === 0 && onSegment(b, c, d)) return true
+  if (d3 === 0 && onSegment(c, a, b)) return true
+  if (d4 === 0 && onSegment(d, a, b)) return true
+  return false
+}
+
+export function pointInPolygon(point: XY, polygon: XY[]) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y) {
+      const x = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+      if (point.x < x) inside = !inside
+    }
+  }
+  return inside
+}
+
+export function segmentCrossesPolygon(a: XY, b: XY, polygon: XY[]) {
+  if (polygon.length < 3) return false
+  if (pointInPolygon(a, polygon) || pointInPolygon(b, polygon)) return true
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    if (segmentsIntersect(a, b, polygon[j], polygon[i])) return true
+  }
+  return false
+}
+
+export type ZoneTester = {
+  containsPoint: (point: XY) => boolean
+  blocksSegment: (a: XY, b: XY) => boolean
+}
+
+export function createZoneTester(zones: XY[][]): ZoneTester | null {
+  const prepared: PreparedPolygon[] = zones
+    .filter((points) => points.length >= 3)
+    .map((points) => ({ points, bounds: boundsOf(points) }))
+  if (prepared.length === 0) return null
+
+  return {
+    containsPoint: (point) => {
+      for (const zone of prepared) {
+        const { bounds } = zone
+        if (point.x < bounds.minX || point.x > bounds.maxX || point.y < bounds.minY || point.y > bounds.maxY) continue
+        if (pointInPolygon(point, zone.points)) return true
+      }
+      return false
+    },
+    blocksSegment: (a, b) => {
+      for (const zone of prepared) {
+        const { bounds } = zone
+        if (Math.max(a.x, b.x) < bounds.minX || Math.min(a.x, b.x) > bounds.maxX) continue
+        if (Math.max(a.y, b.y) < bounds.minY || Math.min(a.y, b.y) > bounds.maxY) continue
+        if (segmentCrossesPolygon(a, b, zone.points)) return true
+      }
+      return false
+    },
+  }
+}
+
+export function convexHull(points: XY[]): XY[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return sorted
+
+  const lower: XY[] = []
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop()
+    lower.push(point)
+  }
+  const upper: XY[] = []
+  for (let index = sorted.length - 1; index >= 0; index -= 1) {
+    const point = sorted[index]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop()
+    upper.push(point)
+  }
+
+  lower.pop()
+  upper.pop()
+  return [...lower, ...upper]
+}
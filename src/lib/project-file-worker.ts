@@ -0,0 +1,59 @@
+import type { ProjectLoadResult, ProjectWorkspace } from "@/lib/project-file"
+
+export type ProjectFileWorkerRequest =
+  | { type: "serialize"; jobId: number; workspace: Partial<ProjectWorkspace>; savedAt: Date }
+  | { type: "parse"; jobId: number; text: string }
+
+export type ProjectFileWorkerResponse =
+  | { type: "serialized"; jobId: number; text: string }
+  | { type: "parsed"; jobId: number; result: ProjectLoadResult }
+  | { type: "error"; jobId: number; message: string }
+
+let nextJobId = 1
+
+function runWorkerJob<T>(
+  build: (jobId: number) => ProjectFileWorkerRequest,
+  takeResult: (message: ProjectFileWorkerResponse) => T | undefined,
+) {
+  const jobId = nextJobId
+  nextJobId += 1
+
+  return new Promise<T>((resolve, reject) => {
+    const worker = new Worker(new URL("./project-file.worker.ts", import.meta.url), { type: "module" })
+
+    worker.onmessage = (event: MessageEvent<ProjectFileWorkerResponse>) => {
+      const message = event.data
+      if (message.jobId !== jobId) return
+      worker.terminate()
+      if (message.type === "error") {
+        reject(new Error(message.message))
+        return
+      }
+      const result = takeResult(message)
+      if (result === undefined) reject(new Error(`Unexpected worker response: ${message.type}`))
+      else resolve(result)
+    }
+
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || "Project file worker failed"))
+    }
+
+    worker.postMessage(build(jobId))
+  })
+}
+
+// The layer columns are copied to the worker, so the page keeps its own.
+export function serializeProjectInWorker(workspace: Partial<ProjectWorkspace>, savedAt = new Date()) {
+  return runWorkerJob(
+    (jobId) => ({ type: "serialize", jobId, workspace, savedAt }),
+    (message) => (message.type === "serialized" ? message.text : undefined),
+  )
+}
+
+export function parseProjectInWorker(text: string) {
+  return runWorkerJob(
+    (jobId) => ({ type: "parse", jobId, text }),
+    (message) => (message.type === "parsed" ? message.result : undefined),
+  )
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { PROJECT_FILE_KIND, PROJECT_FILE_VERSION, parseProject, serializeProject } from "@/lib/project-file"
+import { encodeSpawnColumns, spawnColumnsFrom } from "@/lib/spawn-columns"
+
+describe("parseProject", () => {
+  it("migrates a legacy mark point list to a project holding only the marks", () => {
+    const result = parseProject(JSON.stringify([{ name: "a", center: [1, 2, 3], radius: 40 }, { center: [4, 5] }]))
+    expect(result).toEqual({
+      ok: true,
+      version: 0,
+      migrated: true,
+      workspace: {
+        marks: {
+          points: [
+            { id: 1, name: "a", center: [1, 2, 3], radius: 40, route: 0 },
+            { id: 2, name: "2", center: [4, 5, 0], radius: 0, route: 0 },
+          ],
+          closedLoop: false,
+          startId: null,
+          endId: null,
+        },
+      },
+      invalid: [],
+    })
+  })
+
+  it("keeps valid fields and reports the rest instead of passing bad types through", () => {
+    const text = JSON.stringify({
+      kind: PROJECT_FILE_KIND,
+      version: PROJECT_FILE_VERSION,
+      workspace: {
+        filters: {},
+        spawnLayers: { id: 1 },
+        autoRoute: { clusterRadius: "x", maxWaypoints: 12 },
+        noGoZones: [{ id: 1, name: "a", points: [{ x: 0, y: 0 }] }, { id: 2, name: "b", points: "none" }],
+        clusters: null,
+      },
+    })
+    const result = parseProject(text)
+    if (!result.ok) throw new Error("expected the project to load")
+    expect(result.workspace.filters).toEqual({})
+    expect(result.workspace.spawnLayers).toBeUndefined()
+    expect(result.workspace.autoRoute).toEqual({ maxWaypoints: 12 })
+    expect(result.workspace.noGoZones).toEqual([{ id: 1, name: "a", points: [{ x: 0, y: 0 }] }])
+    expect(result.workspace.clusters).toBeUndefined()
+    expect(result.invalid).toEqual(["spawnLayers", "autoRoute.clusterRadius", "noGoZones[1]", "clusters"])
+  })
+
+  const layer = { id: 1, name: "a", color: "#fff", visible: true, role: "target" as const }
+  const spawn = { id: 1, positionX: 0, positionY: 0, positionZ: 0, map: 0, faction: 0, levelMin: 1, levelMax: 2 }
+
+  it("drops bad spawn rows from a version 1 layer but keeps the layer", () => {
+    const text = JSON.stringify({
+      kind: PROJECT_FILE_KIND,
+      version: 1,
+      workspace: {
+        spawnLayers: [{ ...layer, spawns: [spawn, { ...spawn, positionX: null }] }, { ...layer, role: "x" }],
+      },
+    })
+    const result = parseProject(text)
+    if (!result.ok) throw new Error("expected the project to load")
+    expect(result.workspace.spawnLayers).toEqual([{ ...layer, spawns: spawnColumnsFrom([spawn]) }])
+    expect(result.invalid).toEqual(["spawnLayers[0].spawns", "spawnLayers[1]"])
+  })
+
+  it("saves layers as encoded columns and reads them back", () => {
+    const spawns = spawnColumnsFrom([spawn, { ...spawn, id: 2, name: "Wolf", entry: 299, respawnTime: 300 }])
+    const result = parseProject(serializeProject({ spawnLayers: [{ ...layer, keyBase: 0, spawns }] }))
+    if (!result.ok) throw new Error("expected the project to load")
+    expect(result.workspace.spawnLayers).toEqual([{ ...layer, keyBase: 0, spawns }])
+    expect(result.invalid).toEqual([])
+  })
+
+  it("rejects an encoded layer whose columns do not match its count", () => {
+    const encoded = encodeSpawnColumns(spawnColumnsFrom([spawn]))
+    const text = JSON.stringify({
+      kind: PROJECT_FILE_KIND,
+      version: PROJECT_FILE_VERSION,
+      workspace: { spawnLayers: [{ ...layer, spawns: { ...encoded, count: 2 } }] },
+    })
+    const result = parseProject(text)
+    if (!result.ok) throw new Error("expected the project to load")
+    expect(result.workspace.spawnLayers).toEqual([])
+    expect(result.invalid).toEqual(["spawnLayers[0]"])
+  })
+
+  it("rejects bad JSON, foreign files and newer versions", () => {
+    expect(parseProject("{")).toEqual({ ok: false, reason: "invalid-json" })
+    expect(parseProject(JSON.stringify({ kind: "other", version: 1 }))).toEqual({ ok: false, reason: "not-a-project" })
+    expect(parseProject(JSON.stringify({ kind: PROJECT_FILE_KIND, version: PROJECT_FILE_VERSION + 1, workspace: {} }))).toEqual({
+      ok: false,
+      reason: "newer-version",
+    })
+  })
+})
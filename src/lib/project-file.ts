@@ -0,0 +1,414 @@
+import type { ExportSettingValues } from "@/lib/route-export"
+import {
+  decodeSpawnColumns,
+  encodeSpawnColumns,
+  spawnColumnsFrom,
+  type EncodedSpawnColumns,
+  type SpawnColumns,
+} from "@/lib/spawn-columns"
+import type { ImportedSpawn } from "@/lib/spawn-import"
+
+type ProjectXY = { x: number; y: number }
+
+export type ProjectWorkspace = {
+  view: { imageKey: string; scale: number; offsetX: number; offsetY: number }
+  calibration: {
+    pixelA: ProjectXY | null
+    pixelB: ProjectXY | null
+    worldA: ProjectXY
+    worldB: ProjectXY
+    anchors: { key: "A" | "B" | "C"; x: number; y: number }[]
+  }
+  spawnLayers: {
+    id: number
+    name: string
+    color: string
+    visible: boolean
+    role: "target" | "hazard" | "display"
+    // Start of the layer's spawn key range; files saved before keys existed lack it and get one on load.
+    keyBase?: number
+    spawns: SpawnColumns
+  }[]
+  filters: {
+    levelRange: [number, number]
+    nameQuery: string
+    nameFilterMode: "include" | "exclude"
+    targetMatchingOnly: boolean
+  }
+  marks: {
+    points: { id: number; name: string; center: [number, number, number]; radius: number; route: number }[]
+    closedLoop: boolean
+    startId: number | null
+    endId: number | null
+  }
+  export: { format: string; settings: Record<string, ExportSettingValues> }
+  autoRoute: {
+    clusterRadius: number
+    maxAreaRadius: number
+    maxStepDistance: number
+    maxWaypoints: number
+    waypointRadius: number
+    avoidTravelRadius: number
+    highlightDense: boolean
+    autoTune: boolean
+    closedLoop: boolean
+    use3D: boolean
+    verticalWeight: number
+    maxClimb: number
+    playerLevel: number
+    packEnabled: boolean
+    coverageEnabled: boolean
+    minPull: number
+    maxPull: number
+    routeCount: number
+    routeSeparation: number
+    moveSpeed: number
+    killTime: number
+    respawnTime: number
+    tuneForXp: boolean
+  }
+  noGoZones: { id: number; name: string; points: ProjectXY[] }[]
+  clusters: {
+    overlayEnabled: boolean
+    eps: number
+    minPoints: number
+    excludedSpawnIds: number[]
+    routeCenterOverride: { label: string; point: ProjectXY } | null
+  }
+}
+
+export type ProjectFile = {
+  kind: typeof PROJECT_FILE_KIND
+  version: number
+  savedAt: string
+  workspace: Partial<Omit<ProjectWorkspace, "spawnLayers">> & {
+    spawnLayers?: (Omit<ProjectWorkspace["spawnLayers"][number], "spawns"> & { spawns: EncodedSpawnColumns })[]
+  }
+}
+
+export type ProjectLoadErrorReason = "invalid-json" | "not-a-project" | "newer-version"
+
+// Older files may lack whole sections and fields, and hand-edited ones may hold wrong types, so a loaded workspace
+// only carries the fields that passed validation. List sections keep their valid items.
+export type LoadedWorkspace = {
+  [K in keyof ProjectWorkspace]?: ProjectWorkspace[K] extends unknown[]
+    ? ProjectWorkspace[K]
+    : Partial<ProjectWorkspace[K]>
+}
+
+// `invalid` lists the paths that were dropped, e.g. "autoRoute.clusterRadius" or "noGoZones[2]".
+export type ProjectLoadResult =
+  | { ok: true; version: number; migrated: boolean; workspace: LoadedWorkspace; invalid: string[] }
+  | { ok: false; reason: ProjectLoadErrorReason }
+
+export const PROJECT_FILE_KIND = "grinder-maker-project"
+export const PROJECT_FILE_VERSION = 2
+
+type RawProject = { version: number } & Record<string, unknown>
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Version 0 is the bare mark point list the JSON export used to produce; it becomes a project holding only the marks.
+  0: (project) => {
+    const legacy = Array.isArray(project.points) ? project.points : []
+    const points = legacy.map((item, index) => {
+      const point = (item ?? {}) as Record<string, unknown>
+      const center = Array.isArray(point.center) ? point.center.map(Number) : []
+      return {
+        id: index + 1,
+        name: typeof point.name === "string" ? point.name : `${index + 1}`,
+        center: [center[0] ?? 0, center[1] ?? 0, center[2] ?? 0],
+        radius: Number(point.radius) || 0,
+        route: Number(point.route) || 0,
+      }
+    })
+    return {
+      kind: PROJECT_FILE_KIND,
+      version: 1,
+      savedAt: "",
+      workspace: { marks: { points, closedLoop: false, startId: null, endId: null } },
+    }
+  },
+  // Version 2 stores layer spawns as encoded columns instead of one object per spawn. The layer reader still accepts
+  // the object lists, so the upgrade only has to bump the version.
+  1: (project) => ({ ...project, version: 2 }),
+}
+
+type Check<T> = (value: unknown) => value is T
+type Checks<T> = { [K in keyof T]-?: Check<T[K]> }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+const isString = (value: unknown): value is string => typeof value === "string"
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean"
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+// Lower bounds match the form inputs, so a loaded value is one the user could have typed.
+const atLeast =
+  (min: number) =>
+  (value: unknown): value is number =>
+    isNumber(value) && value >= min
+const integerAtLeast =
+  (min: number) =>
+  (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= min
+
+function oneOf<T extends string>(...values: T[]) {
+  return (value: unknown): value is T => values.includes(value as T)
+}
+
+function nullable<T>(check: Check<T>) {
+  return (value: unknown): value is T | null => value === null || check(value)
+}
+
+function optional<T>(check: Check<T>) {
+  return (value: unknown): value is T | undefined => value === undefined || check(value)
+}
+
+function arrayOf<T>(check: Check<T>) {
+  return (value: unknown): value is T[] => Array.isArray(value) && value.every(check)
+}
+
+function shape<T>(checks: Checks<T>) {
+  return (value: unknown): value is T =>
+    isRecord(value) && Object.entries<Check<unknown>>(checks).every(([key, check]) => check(value[key]))
+}
+
+const isXY = shape<ProjectXY>({ x: isNumber, y: isNumber })
+
+type Workspace = ProjectWorkspace
+
+const SECTION_CHECKS: {
+  view: Checks<Workspace["view"]>
+  calibration: Checks<Workspace["calibration"]>
+  filters: Checks<Workspace["filters"]>
+  marks: Checks<Workspace["marks"]>
+  export: Checks<Workspace["export"]>
+  autoRoute: Checks<Workspace["autoRoute"]>
+  clusters: Checks<Workspace["clusters"]>
+} = {
+  view: {
+    imageKey: isString,
+    scale: (value): value is number => isNumber(value) && value > 0,
+    offsetX: isNumber,
+    offsetY: isNumber,
+  },
+  calibration: {
+    pixelA: nullable(isXY),
+    pixelB: nullable(isXY),
+    worldA: isXY,
+    worldB: isXY,
+    anchors: (value): value is Workspace["calibration"]["anchors"] =>
+      Array.isArray(value) &&
+      value.length === 3 &&
+      value.every(shape({ key: oneOf("A", "B", "C"), x: isNumber, y: isNumber })),
+  },
+  filters: {
+    levelRange: (value): value is [number, number] =>
+      Array.isArray(value) && value.length === 2 && value.every(isNumber) && value[0] <= value[1],
+    nameQuery: isString,
+    nameFilterMode: oneOf("include", "exclude"),
+    targetMatchingOnly: isBoolean,
+  },
+  marks: {
+    points: arrayOf(
+      shape<Workspace["marks"]["points"][number]>({
+        id: isNumber,
+        name: isString,
+        center: (value): value is [number, number, number] =>
+          Array.isArray(value) && value.length === 3 && value.every(isNumber),
+        radius: atLeast(0),
+        route: integerAtLeast(0),
+      }),
+    ),
+    closedLoop: isBoolean,
+    startId: nullable(isNumber),
+    endId: nullable(isNumber),
+  },
+  export: {
+    format: isString,
+    settings: (value): value is Workspace["export"]["settings"] =>
+      isRecord(value) &&
+      Object.values(value).every(
+        (settings) =>
+          isRecord(settings) &&
+          Object.values(settings).every((item) => isString(item) || isBoolean(item) || isNumber(item)),
+      ),
+  },
+  autoRoute: {
+    clusterRadius: atLeast(0),
+    maxAreaRadius: atLeast(0),
+    maxStepDistance: atLeast(0),
+    maxWaypoints: integerAtLeast(0),
+    waypointRadius: atLeast(0),
+    avoidTravelRadius: atLeast(0),
+    highlightDense: isBoolean,
+    autoTune: isBoolean,
+    closedLoop: isBoolean,
+    use3D: isBoolean,
+    verticalWeight: atLeast(0),
+    maxClimb: atLeast(0),
+    playerLevel: integerAtLeast(0),
+    packEnabled: isBoolean,
+    coverageEnabled: isBoolean,
+    minPull: integerAtLeast(1),
+    maxPull: integerAtLeast(1),
+    routeCount: integerAtLeast(1),
+    routeSeparation: atLeast(0),
+    moveSpeed: atLeast(0.1),
+    killTime: atLeast(0),
+    respawnTime: atLeast(0),
+    tuneForXp: isBoolean,
+  },
+  clusters: {
+    overlayEnabled: isBoolean,
+    eps: atLeast(0),
+    minPoints: integerAtLeast(1),
+    excludedSpawnIds: arrayOf(isNumber),
+    routeCenterOverride: nullable(shape({ label: isString, point: isXY })),
+  },
+}
+
+type SpawnLayerEntry = Workspace["spawnLayers"][number]
+
+const isSpawn = shape<ImportedSpawn>({
+  id: isNumber,
+  positionX: isNumber,
+  positionY: isNumber,
+  positionZ: isNumber,
+  map: isNumber,
+  faction: isNumber,
+  levelMin: atLeast(0),
+  levelMax: atLeast(0),
+  respawnTime: optional(atLeast(0)),
+  entry: optional(isNumber),
+  name: optional(isString),
+})
+
+const isLayerHeader = shape<Omit<SpawnLayerEntry, "spawns">>({
+  id: isNumber,
+  name: isString,
+  color: isString,
+  visible: isBoolean,
+  role: oneOf("target", "hazard", "display"),
+  keyBase: optional(integerAtLeast(0)),
+})
+
+const isNoGoZone = shape<Workspace["noGoZones"][number]>({ id: isNumber, name: isString, points: arrayOf(isXY) })
+
+// A missing field is left out quietly, since older files predate it; a present field of the wrong type is reported.
+function readSection<T>(raw: unknown, checks: Checks<T>, path: string, invalid: string[]) {
+  if (raw === undefined) return undefined
+  if (!isRecord(raw)) {
+    invalid.push(path)
+    return undefined
+  }
+  const section: Partial<T> = {}
+  for (const key of Object.keys(checks) as (keyof T & string)[]) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (checks[key](value)) section[key] = value
+    else invalid.push(`${path}.${key}`)
+  }
+  return section
+}
+
+function readItems<T>(
+  raw: unknown,
+  read: (item: unknown, path: string) => T | undefined,
+  path: string,
+  invalid: string[],
+) {
+  if (raw === undefined) return undefined
+  if (!Array.isArray(raw)) {
+    invalid.push(path)
+    return undefined
+  }
+  const items: T[] = []
+  for (const [index, item] of raw.entries()) {
+    const value = read(item, `${path}[${index}]`)
+    if (value === undefined) invalid.push(`${path}[${index}]`)
+    else items.push(value)
+  }
+  return items
+}
+
+// Version 1 layers hold one object per spawn and version 2 layers encoded columns. A version 1 layer with a few bad
+// rows keeps the rest; the bad rows are reported together under the layer's spawns path.
+function readSpawnLayer(raw: unknown, path: string, invalid: string[]): SpawnLayerEntry | undefined {
+  if (!isLayerHeader(raw)) return undefined
+  const stored = (raw as Record<string, unknown>).spawns
+  if (!Array.isArray(stored)) {
+    const spawns = decodeSpawnColumns(stored)
+    return spawns ? { ...raw, spawns } : undefined
+  }
+  const rows = stored.filter(isSpawn)
+  if (rows.length < stored.length) invalid.push(`${path}.spawns`)
+  return { ...raw, spawns: spawnColumnsFrom(rows) }
+}
+
+function readWorkspace(raw: Record<string, unknown>, invalid: string[]): LoadedWorkspace {
+  return {
+    view: readSection(raw.view, SECTION_CHECKS.view, "view", invalid),
+    calibration: readSection(raw.calibration, SECTION_CHECKS.calibration, "calibration", invalid),
+    spawnLayers: readItems(raw.spawnLayers, (item, path) => readSpawnLayer(item, path, invalid), "spawnLayers", invalid),
+    filters: readSection(raw.filters, SECTION_CHECKS.filters, "filters", invalid),
+    marks: readSection(raw.marks, SECTION_CHECKS.marks, "marks", invalid),
+    export: readSection(raw.export, SECTION_CHECKS.export, "export", invalid),
+    autoRoute: readSection(raw.autoRoute, SECTION_CHECKS.autoRoute, "autoRoute", invalid),
+    noGoZones: readItems(raw.noGoZones, (item) => (isNoGoZone(item) ? item : undefined), "noGoZones", invalid),
+    clusters: readSection(raw.clusters, SECTION_CHECKS.clusters, "clusters", invalid),
+  }
+}
+
+// Sections left out of `workspace` are left out of the file, and keep their current value when it is opened.
+export function serializeProject(workspace: Partial<ProjectWorkspace>, savedAt = new Date()) {
+  const file: ProjectFile = {
+    kind: PROJECT_FILE_KIND,
+    version: PROJECT_FILE_VERSION,
+    savedAt: savedAt.toISOString(),
+    workspace: {
+      ...workspace,
+      spawnLayers: workspace.spawnLayers?.map((layer) => ({ ...layer, spawns: encodeSpawnColumns(layer.spawns) })),
+    },
+  }
+  return JSON.stringify(file)
+}
+
+export function parseProject(text: string): ProjectLoadResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, reason: "invalid-json" }
+  }
+
+  let project: RawProject
+  if (Array.isArray(data)) {
+    project = { version: 0, points: data }
+  } else if (
+    data !== null &&
+    typeof data === "object" &&
+    (data as Record<string, unknown>).kind === PROJECT_FILE_KIND &&
+    Number.isInteger((data as Record<string, unknown>).version)
+  ) {
+    project = data as RawProject
+  } else {
+    return { ok: false, reason: "not-a-project" }
+  }
+
+  const version = project.version
+  if (version > PROJECT_FILE_VERSION) return { ok: false, reason: "newer-version" }
+  while (project.version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[project.version]
+    if (!migrate) return { ok: false, reason: "not-a-project" }
+    project = migrate(project)
+  }
+
+  if (!isRecord(project.workspace)) return { ok: false, reason: "not-a-project" }
+  const invalid: string[] = []
+  const workspace = readWorkspace(project.workspace, invalid)
+  return { ok: true, version, migrated: version !== PROJECT_FILE_VERSION, workspace, invalid }
+}
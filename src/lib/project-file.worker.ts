@@ -0,0 +1,24 @@
+import { parseProject, serializeProject } from "@/lib/project-file"
+import type { ProjectFileWorkerRequest, ProjectFileWorkerResponse } from "@/lib/project-file-worker"
+import { spawnColumnBuffers } from "@/lib/spawn-columns"
+
+function post(message: ProjectFileWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = (event: MessageEvent<ProjectFileWorkerRequest>) => {
+  const message = event.data
+  const { jobId } = message
+  try {
+    if (message.type === "serialize") {
+      post({ type: "serialized", jobId, text: serializeProject(message.workspace, message.savedAt) })
+      return
+    }
+    const result = parseProject(message.text)
+    // The decoded layer buffers are moved to the page rather than copied.
+    const layers = result.ok ? (result.workspace.spawnLayers ?? []) : []
+    post({ type: "parsed", jobId, result }, layers.flatMap((layer) => spawnColumnBuffers(layer.spawns)))
+  } catch (error) {
+    post({ type: "error", jobId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
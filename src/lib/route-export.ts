@@ -0,0 +1,235 @@
+export type ExportWaypoint = {
+  name: string
+  x: number
+  y: number
+  z: number
+  radius: number
+  route: number
+}
+
+export type RouteExportContext = {
+  waypoints: ExportWaypoint[]
+  closedLoop: boolean
+  mapId?: number
+}
+
+// Display names live in the UI, keyed by exporter id and setting key.
+export type ExportSettingField =
+  | { key: string; kind: "number"; default: number; min?: number; max?: number; step?: number }
+  | { key: string; kind: "boolean"; default: boolean }
+  | { key: string; kind: "text"; default: string }
+
+export type ExportSettingValues = Record<string, number | boolean | string>
+
+export type RouteExporter = {
+  id: string
+  extension: string
+  settings: ExportSettingField[]
+  render: (context: RouteExportContext, settings: ExportSettingValues) => string
+}
+
+const PRECISION_FIELD: ExportSettingField = {
+  key: "precision",
+  kind: "number",
+  default: 4,
+  min: 0,
+  max: 8,
+  step: 1,
+}
+
+const INCLUDE_Z_FIELD: ExportSettingField = { key: "includeZ", kind: "boolean", default: true }
+
+// Settings arrive from form state, so every read falls back to the field default when the value has the wrong type.
+function readNumber(settings: ExportSettingValues, key: string, fallback: number) {
+  const value = settings[key]
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback
+}
+
+function readBoolean(settings: ExportSettingValues, key: string, fallback: boolean) {
+  const value = settings[key]
+  return typeof value === "boolean" ? value : fallback
+}
+
+function readText(settings: ExportSettingValues, key: string, fallback: string) {
+  const value = settings[key]
+  return typeof value === "string" ? value : fallback
+}
+
+function formatter(settings: ExportSettingValues) {
+  const digits = Math.round(Math.min(8, Math.max(0, readNumber(settings, "precision", 4))))
+  return (value: number) => Number(value.toFixed(digits))
+}
+
+function isMultiRoute(waypoints: ExportWaypoint[]) {
+  return waypoints.some((point) => point.route !== waypoints[0].route)
+}
+
+// A bare point list is what most tools read; the object form also keeps the map id and loop flag.
+const jsonExporter: RouteExporter = {
+  id: "json",
+  extension: "json",
+  settings: [PRECISION_FIELD, INCLUDE_Z_FIELD, { key: "routeInfo", kind: "boolean", default: false }],
+  render: ({ waypoints, closedLoop, mapId }, settings) => {
+    const round = formatter(settings)
+    const includeZ = readBoolean(settings, "includeZ", true)
+    const multiRoute = isMultiRoute(waypoints)
+    const points = waypoints.map((point) => ({
+      name: point.name,
+      center: includeZ ? [round(point.x), round(point.y), round(point.z)] : [round(point.x), round(point.y)],
+      radius: round(point.radius),
+      ...(multiRoute ? { route: point.route } : {}),
+    }))
+    const data = readBoolean(settings, "routeInfo", false) ? { mapId, closedLoop, waypoints: points } : points
+    return JSON.stringify(data, null, 2)
+  },
+}
+
+function luaString(value: string) {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`
+}
+
+const luaExporter: RouteExporter = {
+  id: "lua",
+  extension: "lua",
+  settings: [PRECISION_FIELD, INCLUDE_Z_FIELD, { key: "variableName", kind: "text", default: "route" }],
+  render: ({ waypoints, closedLoop, mapId }, settings) => {
+    const round = formatter(settings)
+    const includeZ = readBoolean(settings, "includeZ", true)
+    const rawName = readText(settings, "variableName", "route").trim()
+    const variableName = /^[A-Za-z_][A-Za-z0-9_]*$/.test(rawName) ? rawName : "route"
+    const multiRoute = isMultiRoute(waypoints)
+
+    const lines = [`local ${variableName} = {`]
+    if (mapId !== undefined) lines.push(`  mapId = ${mapId},`)
+    lines.push(`  closedLoop = ${closedLoop},`, "  waypoints = {")
+    for (const point of waypoints) {
+      const fields = [
+        `name = ${luaString(point.name)}`,
+        `x = ${round(point.x)}`,
+        `y = ${round(point.y)}`,
+        ...(includeZ ? [`z = ${round(point.z)}`] : []),
+        `radius = ${round(point.radius)}`,
+        ...(multiRoute ? [`route = ${point.route}`] : []),
+      ]
+      lines.push(`    { ${fields.join(", ")} },`)
+    }
+    lines.push("  },", "}", "", `return ${variableName}`)
+    return lines.join("\n")
+  },
+}
+
+function csvField(value: string | number, delimiter: string) {
+  const text = String(value)
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const csvExporter: RouteExporter = {
+  id: "csv",
+  extension: "csv",
+  settings: [
+    PRECISION_FIELD,
+    INCLUDE_Z_FIELD,
+    { key: "header", kind: "boolean", default: true },
+    { key: "delimiter", kind: "text", default: "," },
+  ],
+  render: ({ waypoints }, settings) => {
+    const round = formatter(settings)
+    const includeZ = readBoolean(settings, "includeZ", true)
+    const delimiter = readText(settings, "delimiter", ",").replace(/\\t/g, "\t") || ","
+    const columns = ["route", "index", "name", "x", "y", ...(includeZ ? ["z"] : []), "radius"]
+
+    const rows: string[] = []
+    if (readBoolean(settings, "header", true)) rows.push(columns.join(delimiter))
+    const indexInRoute = new Map<number, number>()
+    for (const point of waypoints) {
+      const index = (indexInRoute.get(point.route) ?? 0) + 1
+      indexInRoute.set(point.route, index)
+      const values = [point.route, index, point.name, round(point.x), round(point.y), ...(includeZ ? [round(point.z)] : []), round(point.radius)]
+      rows.push(values.map((value) => csvField(value, delimiter)).join(delimiter))
+    }
+    return rows.join("\n")
+  },
+}
+
+function xmlEscape(value: string | number | boolean) {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+}
+
+// Grind profiles list hotspots in order; the mark point named like the vendor setting becomes the vendor/repair stop.
+// The vendor keeps that mark's name and radius in Point and Radius, so importing the profile restores the mark.
+const xmlProfileExporter: RouteExporter = {
+  id: "xml-profile",
+  extension: "xml",
+  settings: [
+    PRECISION_FIELD,
+    INCLUDE_Z_FIELD,
+    { key: "profileName", kind: "text", default: "Grind" },
+    { key: "vendorPoint", kind: "text", default: "vendor" },
+    { key: "vendorNpc", kind: "text", default: "" },
+    { key: "repair", kind: "boolean", default: true },
+  ],
+  render: ({ waypoints, closedLoop, mapId }, settings) => {
+    const round = formatter(settings)
+    const includeZ = readBoolean(settings, "includeZ", true)
+    const vendorPoint = readText(settings, "vendorPoint", "vendor").trim().toLowerCase()
+    const vendor = vendorPoint ? waypoints.find((point) => point.name.trim().toLowerCase() === vendorPoint) : undefined
+    const hotspots = waypoints.filter((point) => point !== vendor)
+    const multiRoute = isMultiRoute(hotspots)
+
+    const position = (point: ExportWaypoint) =>
+      `X="${round(point.x)}" Y="${round(point.y)}"${includeZ ? ` Z="${round(point.z)}"` : ""}`
+
+    const lines = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      "<GrindProfile>",
+      `  <Name>${xmlEscape(readText(settings, "profileName", "Grind"))}</Name>`,
+      ...(mapId !== undefined ? [`  <MapId>${mapId}</MapId>`] : []),
+      `  <Loop>${closedLoop}</Loop>`,
+      "  <Hotspots>",
+    ]
+    for (const point of hotspots) {
+      const route = multiRoute ? ` Route="${point.route}"` : ""
+      lines.push(
+        `    <Hotspot Name="${xmlEscape(point.name)}" ${position(point)} Radius="${round(point.radius)}"${route} />`,
+      )
+    }
+    lines.push("  </Hotspots>")
+    if (vendor) {
+      const npc = readText(settings, "vendorNpc", "").trim() || vendor.name
+      const repair = readBoolean(settings, "repair", true)
+      lines.push(
+        "  <Vendors>",
+        `    <Vendor Name="${xmlEscape(npc)}" Point="${xmlEscape(vendor.name)}" ${position(vendor)} Radius="${round(vendor.radius)}" Repair="${repair}" />`,
+        "  </Vendors>",
+      )
+    } else {
+      lines.push("  <Vendors />")
+    }
+    lines.push("</GrindProfile>")
+    return lines.join("\n")
+  },
+}
+
+const exporters = new Map<string, RouteExporter>()
+
+export function registerRouteExporter(exporter: RouteExporter) {
+  exporters.set(exporter.id, exporter)
+}
+
+export function listRouteExporters() {
+  return [...exporters.values()]
+}
+
+export function getRouteExporter(id: string) {
+  return exporters.get(id) ?? jsonExporter
+}
+
+export function defaultExportSettings(exporter: RouteExporter): ExportSettingValues {
+  return Object.fromEntries(exporter.settings.map((field) => [field.key, field.default]))
+}
+
+for (const exporter of [jsonExporter, luaExporter, csvExporter, xmlProfileExporter]) registerRouteExporter(exporter)
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { defaultExportSettings, getRouteExporter, listRouteExporters, type ExportWaypoint } from "@/lib/route-export"
+import { detectRouteFormat, parseRouteText } from "@/lib/route-import"
+
+const waypoints: ExportWaypoint[] = [
+  { name: "Camp", x: 100.5, y: -200.25, z: 10, radius: 60, route: 0 },
+  { name: 'Ridge "north"', x: 150, y: -250, z: 12.5, radius: 45, route: 0 },
+  { name: "Back", x: 90, y: -180, z: 8, radius: 60, route: 0 },
+  // A lone quote, a comma and braces inside names must not split a Lua table.
+  { name: '5" spot, west', x: 95, y: -190, z: 8, radius: 50, route: 0 },
+  { name: "{camp} -- main", x: 80, y: -170, z: 7, radius: 40, route: 0 },
+]
+
+describe("route export and import", () => {
+  for (const exporter of listRouteExporters()) {
+    it(`round-trips the ${exporter.id} format`, () => {
+      const settings = { ...defaultExportSettings(exporter), routeInfo: true }
+      const result = parseRouteText(exporter.render({ waypoints, closedLoop: true, mapId: 1 }, settings))
+      expect(result.errors).toEqual([])
+      expect(result.waypoints).toEqual(waypoints)
+      // CSV has no place for route-level settings.
+      if (exporter.id !== "csv") expect(result).toMatchObject({ closedLoop: true, mapId: 1 })
+    })
+  }
+
+  it("restores the XML vendor as its mark point", () => {
+    const exporter = getRouteExporter("xml-profile")
+    const withVendor = [...waypoints, { name: "Vendor", x: 120, y: -210, z: 9, radius: 30, route: 0 }]
+    const settings = { ...defaultExportSettings(exporter), vendorNpc: "Innkeeper Farley" }
+    const result = parseRouteText(exporter.render({ waypoints: withVendor, closedLoop: true }, settings))
+    expect(result.waypoints).toEqual(withVendor)
+    expect(result.vendor).toEqual({ point: "Vendor", npc: "Innkeeper Farley" })
+
+    const foreign = parseRouteText('<GrindProfile><Vendor Name="Farley" X="1" Y="2" Z="3" /></GrindProfile>')
+    expect(foreign.waypoints.map((point) => point.name)).toEqual(["vendor"])
+    expect(foreign.vendor).toEqual({ point: "vendor", npc: "Farley" })
+  })
+
+  it("writes a bare JSON point list unless asked to keep the route settings", () => {
+    const exporter = getRouteExporter("json")
+    const text = exporter.render({ waypoints, closedLoop: true, mapId: 1 }, defaultExportSettings(exporter))
+    const result = parseRouteText(text)
+    expect(result.waypoints).toEqual(waypoints)
+    expect(result.closedLoop).toBeUndefined()
+    expect(result.mapId).toBeUndefined()
+  })
+
+  it("reads Lua comments, positional tables and single-quoted strings", () => {
+    const text = [
+      "return { -- header, with { a brace",
+      "  { 1, 2, 3 }, --[[ { x = 9, y = 9 } ]]",
+      "  { name = 'it\\'s', x = 4, y = 5 },",
+      "}",
+    ].join("\n")
+    const result = parseRouteText(text)
+    expect(result.waypoints.map((point) => [point.name, point.x, point.y])).toEqual([
+      ["", 1, 2],
+      ["it's", 4, 5],
+    ])
+  })
+
+  it("detects formats from content", () => {
+    expect(detectRouteFormat("[]")).toBe("json")
+    expect(detectRouteFormat("<GrindProfile/>")).toBe("xml")
+    expect(detectRouteFormat("return { { x = 1, y = 2 } }")).toBe("lua")
+    expect(detectRouteFormat("name,x,y\na,1,2")).toBe("csv")
+    expect(detectRouteFormat("hello")).toBeNull()
+  })
+
+  it("skips points without coordinates", () => {
+    const result = parseRouteText(JSON.stringify([{ x: 1, y: 2 }, { x: "a", y: 3 }]))
+    expect(result.waypoints).toEqual([{ name: "", x: 1, y: 2, z: 0, radius: 60, route: 0 }])
+    expect(result.errors).toEqual([{ reason: "invalid-point", index: 1 }])
+  })
+})
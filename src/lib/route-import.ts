@@ -0,0 +1,322 @@
+import type { ExportWaypoint } from "@/lib/route-export"
+import { detectDelimiter, splitFields } from "@/lib/spawn-import"
+
+export type RouteImportFormat = "json" | "xml" | "lua" | "csv"
+
+export type RouteImportErrorReason = "unrecognized-format" | "invalid-json" | "invalid-point"
+
+export type RouteImportError = {
+  reason: RouteImportErrorReason
+  index?: number
+}
+
+export type RouteImportResult = {
+  format: RouteImportFormat | null
+  waypoints: ExportWaypoint[]
+  closedLoop?: boolean
+  mapId?: number
+  // Set when an XML profile names a vendor: the mark point it stands on and the NPC to visit there.
+  vendor?: { point: string; npc: string }
+  errors: RouteImportError[]
+}
+
+const DEFAULT_RADIUS = 60
+
+type RawPoint = {
+  name?: unknown
+  x?: unknown
+  y?: unknown
+  z?: unknown
+  radius?: unknown
+  route?: unknown
+}
+
+function toNumber(value: unknown) {
+  const parsed = typeof value === "string" ? Number(value.trim()) : value
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined
+}
+
+// Shared by every format: a point needs finite x and y, everything else falls back to a default.
+// Unnamed points keep an empty name for the caller to fill in.
+function collectPoints(raw: RawPoint[], errors: RouteImportError[]) {
+  const waypoints: ExportWaypoint[] = []
+  for (const [index, point] of raw.entries()) {
+    const x = toNumber(point.x)
+    const y = toNumber(point.y)
+    if (x === undefined || y === undefined) {
+      errors.push({ reason: "invalid-point", index })
+      continue
+    }
+    waypoints.push({
+      name: typeof point.name === "string" ? point.name.trim() : "",
+      x,
+      y,
+      z: toNumber(point.z) ?? 0,
+      radius: toNumber(point.radius) ?? DEFAULT_RADIUS,
+      route: toNumber(point.route) ?? 0,
+    })
+  }
+  return waypoints
+}
+
+function parseJson(text: string, errors: RouteImportError[]): RouteImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    errors.push({ reason: "invalid-json" })
+    return { format: "json", waypoints: [], errors }
+  }
+
+  const record = data !== null && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : null
+  const list = Array.isArray(data) ? data : (record?.waypoints ?? record?.hotspots ?? record?.points)
+  if (!Array.isArray(list)) {
+    errors.push({ reason: "unrecognized-format" })
+    return { format: "json", waypoints: [], errors }
+  }
+
+  const raw = list.map((item): RawPoint => {
+    if (Array.isArray(item)) return { x: item[0], y: item[1], z: item[2] }
+    if (item === null || typeof item !== "object") return {}
+    const point = item as Record<string, unknown>
+    const center = Array.isArray(point.center) ? point.center : null
+    return {
+      name: point.name,
+      x: center ? center[0] : (point.x ?? point.X),
+      y: center ? center[1] : (point.y ?? point.Y),
+      z: center ? center[2] : (point.z ?? point.Z),
+      radius: point.radius,
+      route: point.route,
+    }
+  })
+
+  return {
+    format: "json",
+    waypoints: collectPoints(raw, errors),
+    closedLoop: typeof record?.closedLoop === "boolean" ? record.closedLoop : undefined,
+    mapId: toNumber(record?.mapId),
+    errors,
+  }
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+}
+
+function xmlAttributes(tag: string) {
+  const attributes = new Map<string, string>()
+  for (const match of tag.matchAll(/([A-Za-z_][\w.-]*)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes.set(match[1].toLowerCase(), decodeXml(match[3] ?? match[4] ?? ""))
+  }
+  return attributes
+}
+
+function xmlElementText(text: string, name: string) {
+  const match = new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, "i").exec(text)
+  return match ? decodeXml(match[1]) : undefined
+}
+
+// Reads hotspots written as attributes (<Hotspot X= Y= Z= />, <Vector3 ... />) and the vendor stop of our own profile.
+// A vendor's Name is the NPC, so its mark point is named from Point, or "vendor" for profiles written elsewhere.
+function parseXml(text: string, errors: RouteImportError[]): RouteImportResult {
+  const raw: RawPoint[] = []
+  let vendor: RouteImportResult["vendor"]
+  for (const match of text.matchAll(/<(Hotspot|Vector3|Waypoint|Vendor)\b([^>]*)>/gi)) {
+    const attributes = xmlAttributes(match[2])
+    let name = attributes.get("name")
+    if (match[1].toLowerCase() === "vendor") {
+      const point = attributes.get("point")?.trim() || "vendor"
+      vendor ??= { point, npc: name?.trim() ?? "" }
+      name = point
+    }
+    raw.push({
+      name,
+      x: attributes.get("x"),
+      y: attributes.get("y"),
+      z: attributes.get("z"),
+      radius: attributes.get("radius"),
+      route: attributes.get("route"),
+    })
+  }
+
+  const loop = xmlElementText(text, "Loop")?.toLowerCase()
+  return {
+    format: "xml",
+    waypoints: collectPoints(raw, errors),
+    closedLoop: loop === "true" ? true : loop === "false" ? false : undefined,
+    mapId: toNumber(xmlElementText(text, "MapId")),
+    ...(vendor ? { vendor } : {}),
+    errors,
+  }
+}
+
+type LuaToken = { kind: "punct" | "string" | "word"; text: string }
+
+const LUA_PUNCTUATION = "{}[],;="
+
+// Splits Lua source into punctuation, strings (unescaped) and bare words such as numbers and names. Comments are
+// dropped here rather than beforehand, so `--`, braces and commas inside a string stay part of it.
+function tokenizeLua(text: string) {
+  const tokens: LuaToken[] = []
+  let index = 0
+  while (index < text.length) {
+    const char = text[index]
+    if (/\s/.test(char)) {
+      index += 1
+    } else if (text.startsWith("--", index)) {
+      const block = text.startsWith("--[[", index)
+      const end = block ? text.indexOf("]]", index + 4) : text.indexOf("\n", index)
+      index = end < 0 ? text.length : end + (block ? 2 : 1)
+    } else if (char === '"' || char === "'") {
+      let value = ""
+      index += 1
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === "\\" && index + 1 < text.length) {
+          const escaped = text[index + 1]
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped
+          index += 2
+        } else {
+          value += text[index]
+          index += 1
+        }
+      }
+      index += 1
+      tokens.push({ kind: "string", text: value })
+    } else if (LUA_PUNCTUATION.includes(char)) {
+      tokens.push({ kind: "punct", text: char })
+      index += 1
+    } else {
+      const start = index
+      while (
+        index < text.length &&
+        !/[\s"']/.test(text[index]) &&
+        !LUA_PUNCTUATION.includes(text[index]) &&
+        !text.startsWith("--", index)
+      ) {
+        index += 1
+      }
+      tokens.push({ kind: "word", text: text.slice(start, index) })
+    }
+  }
+  return tokens
+}
+
+const isPunct = (token: LuaToken | undefined, text: string) => token?.kind === "punct" && token.text === text
+
+// A field is `name = value`, `["name"] = value` or a bare value; a value spanning several tokens is kept joined
+// so it fails the number check instead of being read as its first part.
+function readLuaField(field: LuaToken[]) {
+  const equals = field.findIndex((token) => isPunct(token, "="))
+  const valueOf = (tokens: LuaToken[]) => tokens.map((token) => token.text).join(" ")
+  if (equals < 0) return { value: valueOf(field) }
+  const key = field.slice(0, equals).filter((token) => !isPunct(token, "[") && !isPunct(token, "]"))
+  const name = key.length === 1 && /^[A-Za-z_]\w*$/.test(key[0].text) ? key[0].text.toLowerCase() : undefined
+  return { key: name ?? "", value: valueOf(field.slice(equals + 1)) }
+}
+
+// Every innermost table is a point: either keyed (x = 1, y = 2) or positional ({ 1, 2, 3 }).
+function parseLua(text: string, errors: RouteImportError[]): RouteImportResult {
+  const tokens = tokenizeLua(text)
+  const raw: RawPoint[] = []
+  const tables: { fields: LuaToken[][]; nested: boolean }[] = []
+
+  const endField = (table: (typeof tables)[number]) => {
+    const current = table.fields[table.fields.length - 1]
+    if (current.length > 0) table.fields.push([])
+  }
+
+  for (const token of tokens) {
+    const table = tables[tables.length - 1]
+    if (isPunct(token, "{")) {
+      if (table) table.nested = true
+      tables.push({ fields: [[]], nested: false })
+    } else if (isPunct(token, "}")) {
+      tables.pop()
+      if (!table || table.nested) continue
+      const keyed = new Map<string, string>()
+      const positional: string[] = []
+      for (const field of table.fields) {
+        if (field.length === 0) continue
+        const { key, value } = readLuaField(field)
+        if (key !== undefined) keyed.set(key, value)
+        else positional.push(value)
+      }
+      if (keyed.has("x") && keyed.has("y")) {
+        raw.push({
+          name: keyed.get("name"),
+          x: keyed.get("x"),
+          y: keyed.get("y"),
+          z: keyed.get("z"),
+          radius: keyed.get("radius"),
+          route: keyed.get("route"),
+        })
+      } else if (keyed.size === 0 && positional.length >= 2 && positional.length <= 4) {
+        raw.push({ x: positional[0], y: positional[1], z: positional[2], radius: positional[3] })
+      }
+    } else if (table && (isPunct(token, ",") || isPunct(token, ";"))) {
+      endField(table)
+    } else if (table) {
+      table.fields[table.fields.length - 1].push(token)
+    }
+  }
+
+  // The route-level settings are plain `name = value` fields anywhere in the file.
+  const setting = (name: string) => {
+    for (let index = 0; index + 2 < tokens.length; index += 1) {
+      const token = tokens[index]
+      if (token.kind === "word" && token.text === name && isPunct(tokens[index + 1], "=")) {
+        return tokens[index + 2].kind === "word" ? tokens[index + 2].text : undefined
+      }
+    }
+    return undefined
+  }
+  const closed = setting("closedLoop")
+  const mapId = setting("mapId")
+  return {
+    format: "lua",
+    waypoints: collectPoints(raw, errors),
+    closedLoop: closed === "true" ? true : closed === "false" ? false : undefined,
+    mapId: mapId !== undefined && /^-?\d+$/.test(mapId) ? Number(mapId) : undefined,
+    errors,
+  }
+}
+
+// Matches the CSV exporter: a header row naming x and y, the other columns optional.
+function parseCsv(text: string, errors: RouteImportError[]): RouteImportResult {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== "")
+  const delimiter = detectDelimiter(lines)
+  const header = splitFields(lines[0] ?? "", delimiter).map((field) => field.toLowerCase())
+  const column = (name: string) => header.indexOf(name)
+  const raw = lines.slice(1).map((line): RawPoint => {
+    const fields = splitFields(line, delimiter)
+    const read = (name: string) => (column(name) >= 0 ? fields[column(name)] : undefined)
+    return { name: read("name"), x: read("x"), y: read("y"), z: read("z"), radius: read("radius"), route: read("route") }
+  })
+  return { format: "csv", waypoints: collectPoints(raw, errors), errors }
+}
+
+export function detectRouteFormat(text: string): RouteImportFormat | null {
+  const trimmed = text.trim()
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json"
+  if (trimmed.startsWith("<")) return "xml"
+  if (/\{[^{}]*\bx\s*=/.test(trimmed) || /^(local\s+\w+\s*=|return\s*\{)/m.test(trimmed)) return "lua"
+  const header = trimmed.split(/\r?\n/)[0]?.toLowerCase() ?? ""
+  if (/(^|[,;\t|\s])x([,;\t|\s]|$)/.test(header) && /(^|[,;\t|\s])y([,;\t|\s]|$)/.test(header)) return "csv"
+  return null
+}
+
+export function parseRouteText(text: string): RouteImportResult {
+  const errors: RouteImportError[] = []
+  const format = detectRouteFormat(text)
+  if (format === "json") return parseJson(text, errors)
+  if (format === "xml") return parseXml(text, errors)
+  if (format === "lua") return parseLua(text, errors)
+  if (format === "csv") return parseCsv(text, errors)
+  errors.push({ reason: "unrecognized-format" })
+  return { format: null, waypoints: [], errors }
+}
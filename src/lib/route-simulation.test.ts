@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { mobKillXp } from "@/lib/route-simulation"
+
+describe("mobKillXp", () => {
+  it("gives the base XP for an even-level mob", () => {
+    expect(mobKillXp(10, 10)).toBe(95)
+    expect(mobKillXp(60, 60)).toBe(345)
+  })
+
+  it("adds 5% per level above the player, up to four levels", () => {
+    expect(mobKillXp(12, 10)).toBeCloseTo(104.5)
+    expect(mobKillXp(70, 60)).toBeCloseTo(414)
+  })
+
+  it("scales lower-level mobs by the zero-difference value of the player's bracket", () => {
+    expect(mobKillXp(5, 7)).toBeCloseTo(80 * (1 - 2 / 5))
+    expect(mobKillXp(15, 20)).toBeCloseTo(145 * (1 - 5 / 11))
+    expect(mobKillXp(30, 35)).toBeCloseTo(220 * (1 - 5 / 12))
+    expect(mobKillXp(40, 44)).toBeCloseTo(265 * (1 - 4 / 13))
+    expect(mobKillXp(55, 59)).toBeCloseTo(340 * (1 - 4 / 16))
+    expect(mobKillXp(55, 60)).toBeCloseTo(345 * (1 - 5 / 17))
+    expect(mobKillXp(70, 79)).toBeCloseTo(440 * (1 - 9 / 17))
+  })
+
+  it("gives nothing for grey mobs", () => {
+    expect(mobKillXp(40, 60)).toBe(0)
+  })
+})
@@ -0,0 +1,155 @@
+import type { SpawnXYZ } from "@/lib/auto-route"
+
+export type RouteSimulationSettings = {
+  moveSpeed: number
+  killTime: number
+  respawnTime: number
+  playerLevel?: number
+  closedLoop?: boolean
+  verticalWeight?: number
+  durationSeconds?: number
+}
+
+export type RouteSimulation = {
+  duration: number
+  laps: number
+  lapTravelTime: number
+  kills: number
+  killsPerHour: number
+  idleSeconds: number
+  idleRatio: number
+  xp: number
+  xpPerHour: number
+}
+
+const DEFAULT_DURATION_SECONDS = 3600
+
+// Zero-difference level per player level bracket, used to scale XP for lower-level mobs.
+function zeroDifference(playerLevel: number) {
+  if (playerLevel < 8) return 5
+  if (playerLevel < 10) return 6
+  if (playerLevel < 12) return 7
+  if (playerLevel < 16) return 8
+  if (playerLevel < 20) return 9
+  if (playerLevel < 30) return 11
+  if (playerLevel < 40) return 12
+  if (playerLevel < 45) return 13
+  if (playerLevel < 50) return 14
+  if (playerLevel < 55) return 15
+  if (playerLevel < 60) return 16
+  return 17
+}
+
+export function mobKillXp(mobLevel: number, playerLevel: number) {
+  const base = playerLevel * 5 + 45
+  if (mobLevel >= playerLevel) return base * (1 + 0.05 * Math.min(4, mobLevel - playerLevel))
+  const zd = zeroDifference(playerLevel)
+  return Math.max(0, base * (1 - (playerLevel - mobLevel) / zd))
+}
+
+function spawnXp(spawn: SpawnXYZ, playerLevel: number) {
+  const levelMax = spawn.level ?? spawn.levelMin
+  if (levelMax === undefined) return 0
+  const mobLevel = ((spawn.levelMin ?? levelMax) + levelMax) / 2
+  // Without a player level every mob is valued as if it matched the player.
+  return mobKillXp(mobLevel, playerLevel > 0 ? playerLevel : mobLevel)
+}
+
+function travelTime(a: SpawnXYZ, b: SpawnXYZ, speed: number, verticalWeight: number) {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  const dz = verticalWeight > 0 ? (a.z - b.z) * verticalWeight : 0
+  return Math.sqrt(dx * dx + dy * dy + dz * dz) / speed
+}
+
+// Walks the route lap after lap (open routes turn around at each end) and kills every member alive on arrival.
+// The bot only idles when a whole lap found nothing alive; it then waits for the earliest respawn.
+export function simulateRoute(
+  route: SpawnXYZ[],
+  membersByWaypoint: SpawnXYZ[][],
+  settings: RouteSimulationSettings,
+): RouteSimulation {
+  const duration = Math.max(1, settings.durationSeconds ?? DEFAULT_DURATION_SECONDS)
+  const speed = Math.max(1e-6, settings.moveSpeed)
+  const killTime = Math.max(0, settings.killTime)
+  const verticalWeight = settings.verticalWeight ?? 0
+  const playerLevel = settings.playerLevel ?? 0
+  const closed = (settings.closedLoop ?? false) && route.length > 2
+
+  const empty = { duration, laps: 0, lapTravelTime: 0, kills: 0, killsPerHour: 0, idleSeconds: 0, idleRatio: 0, xp: 0, xpPerHour: 0 }
+  if (route.length === 0 || membersByWaypoint.every((members) => members.length === 0)) return empty
+
+  // One lap visits the waypoints in order; an open route comes back the same way on the next lap.
+  const forward = route.map((_, index) => index)
+  const laps =
+    route.length === 1 ? [[0]] : closed ? [[...forward, 0].slice(1)] : [forward.slice(1), forward.slice(0, -1).reverse()]
+
+  let lapTravelTime = 0
+  for (let index = 0; index + 1 < route.length; index += 1) {
+    lapTravelTime += travelTime(route[index], route[index + 1], speed, verticalWeight)
+  }
+  if (closed) lapTravelTime += travelTime(route[route.length - 1], route[0], speed, verticalWeight)
+
+  const availableAt = new Map<number, number>()
+  let time = 0
+  let kills = 0
+  let xp = 0
+  let idleSeconds = 0
+  let lapCount = 0
+  let position = 0
+
+  const visit = (waypoint: number) => {
+    let killed = 0
+    for (const member of membersByWaypoint[waypoint] ?? []) {
+      if (time >= duration) break
+      if ((availableAt.get(member.id) ?? 0) > time) continue
+      time += killTime
+      kills += 1
+      killed += 1
+      xp += spawnXp(member, playerLevel)
+      availableAt.set(member.id, time + Math.max(0, member.respawnTime ?? settings.respawnTime))
+    }
+    return killed
+  }
+
+  visit(0)
+  while (time < duration) {
+    const lap = laps[lapCount % laps.length]
+    const lapStart = time
+    let lapKills = 0
+    for (const waypoint of lap) {
+      if (time >= duration) break
+      time += travelTime(route[position], route[waypoint], speed, verticalWeight)
+      position = waypoint
+      lapKills += visit(waypoint)
+    }
+    if (time >= duration) break
+    lapCount += 1
+
+    if (lapKills === 0) {
+      let nextRespawn = Infinity
+      for (const at of availableAt.values()) nextRespawn = Math.min(nextRespawn, at)
+      if (nextRespawn > time) {
+        const idle = Math.min(nextRespawn, duration) - time
+        idleSeconds += idle
+        time += idle
+      }
+    } else if (time === lapStart) {
+      // Zero travel, kill and respawn times would loop forever without advancing the clock.
+      break
+    }
+  }
+
+  const hours = duration / 3600
+  return {
+    duration,
+    laps: lapCount,
+    lapTravelTime,
+    kills,
+    killsPerHour: kills / hours,
+    idleSeconds,
+    idleRatio: idleSeconds / duration,
+    xp,
+    xpPerHour: xp / hours,
+  }
+}
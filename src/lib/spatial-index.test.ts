@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { countInRadius, createSpatialIndex, queryNearest, queryRadius } from "@/lib/spatial-index"
+
+const grid = Array.from({ length: 100 }, (_, index) => ({ id: index, x: (index % 10) * 10, y: Math.floor(index / 10) * 10 }))
+
+describe("createSpatialIndex", () => {
+  it("finds the same points as a linear scan", () => {
+    const index = createSpatialIndex(grid, 15, (item) => item)
+    const center = { x: 42, y: 37 }
+    const expected = grid.filter((item) => Math.hypot(item.x - center.x, item.y - center.y) <= 25).map((item) => item.id)
+    expect(queryRadius(index, center, 25).map((item) => item.id).sort((a, b) => a - b)).toEqual(expected)
+    expect(countInRadius(index, center, 25)).toBe(expected.length)
+    expect(queryNearest(index, { x: 1, y: 1 }, 2).map((item) => item.id)).toEqual([0, 1])
+  })
+
+  it("terminates on non-finite cell sizes and coordinates", () => {
+    for (const cellSize of [NaN, Infinity, -Infinity, 0, -5]) {
+      const index = createSpatialIndex(grid, cellSize, (item) => item)
+      expect(countInRadius(index, { x: 0, y: 0 }, 1000)).toBe(grid.length)
+    }
+    const withBad = [...grid, { id: -1, x: NaN, y: 0 }, { id: -2, x: 0, y: Infinity }]
+    const index = createSpatialIndex(withBad, 10, (item) => item)
+    expect(index.items).toHaveLength(grid.length)
+    expect(createSpatialIndex([{ x: NaN, y: NaN }], NaN, (item) => item).items).toEqual([])
+  })
+})
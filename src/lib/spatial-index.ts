@@ -0,0 +1,258 @@
+import type { XY } from "@/lib/auto-route"
+
+export type SpatialIndex<T> = {
+  items: T[]
+  xs: Float64Array
+  ys: Float64Array
+  cellSize: number
+  minCx: number
+  minCy: number
+  cols: number
+  rows: number
+  cellStart: Uint32Array
+}
+
+const MAX_CELLS_PER_ITEM = 4
+const MIN_CELL_BUDGET = 1 << 16
+
+// Items with a non-finite coordinate can never match a query, so they are left out of the index; a non-finite
+// or non-positive cell size falls back to one cell spanning the whole extent. Either would otherwise make the
+// cell count NaN and the sizing loop below never end.
+export function createSpatialIndex<T>(items: T[], cellSize: number, getXY: (item: T) => XY): SpatialIndex<T> {
+  const kept: T[] = []
+  const keptX: number[] = []
+  const keptY: number[] = []
+
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const item of items) {
+    const { x, y } = getXY(item)
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue
+    kept.push(item)
+    keptX.push(x)
+    keptY.push(y)
+    if (x < minX) minX = x
+    if (x > maxX) maxX = x
+    if (y < minY) minY = y
+    if (y > maxY) maxY = y
+  }
+  const count = kept.length
+  const rawX = Float64Array.from(keptX)
+  const rawY = Float64Array.from(keptY)
+
+  let safeCellSize =
+    Number.isFinite(cellSize) && cellSize > 0
+      ? Math.max(1e-6, cellSize)
+      : count > 0
+        ? Math.max(1, maxX - minX, maxY - minY)
+        : 1
+  if (count === 0) {
+    return {
+      items: [],
+      xs: rawX,
+      ys: rawY,
+      cellSize: safeCellSize,
+      minCx: 0,
+      minCy: 0,
+      cols: 0,
+      rows: 0,
+      cellStart: new Uint32Array(1),
+    }
+  }
+
+  // Cells only bound the search, so sparse data gets coarser cells instead of a huge table.
+  const cellBudget = Math.max(MIN_CELL_BUDGET, count * MAX_CELLS_PER_ITEM)
+  for (;;) {
+    const cols = Math.floor(maxX / safeCellSize) - Math.floor(minX / safeCellSize) + 1
+    const rows = Math.floor(maxY / safeCellSize) - Math.floor(minY / safeCellSize) + 1
+    if (cols * rows <= cellBudget) break
+    safeCellSize *= Math.max(1.5, Math.sqrt((cols * rows) / cellBudget))
+  }
+
+  const minCx = Math.floor(minX / safeCellSize)
+  const minCy = Math.floor(minY / safeCellSize)
+  const cols = Math.floor(maxX / safeCellSize) - minCx + 1
+  const rows = Math.floor(maxY / safeCellSize) - minCy + 1
+
+  const cellOf = new Uint32Array(count)
+  const cellStart = new Uint32Array(cols * rows + 1)
+  for (let index = 0; index < count; index += 1) {
+    const cx = Math.floor(rawX[index] / safeCellSize) - minCx
+    const cy = Math.floor(rawY[index] / safeCellSize) - minCy
+    const cell = cy * cols + cx
+    cellOf[index] = cell
+    cellStart[cell + 1] += 1
+  }
+  for (let cell = 0; cell < cols * rows; cell += 1) cellStart[cell + 1] += cellStart[cell]
+
+  const cursor = cellStart.slice(0, cols * rows)
+  const sorted = new Array<T>(count)
+  const xs = new Float64Array(count)
+  const ys = new Float64Array(count)
+  for (let index = 0; index < count; index += 1) {
+    const slot = cursor[cellOf[index]]
+    cursor[cellOf[index]] += 1
+    sorted[slot] = kept[index]
+    xs[slot] = rawX[index]
+    ys[slot] = rawY[index]
+  }
+
+  return { items: sorted, xs, ys, cellSize: safeCellSize, minCx, minCy, cols, rows, cellStart }
+}
+
+function forEachInBox<T>(
+  index: SpatialIndex<T>,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+  visit: (slot: number) => boolean | void,
+) {
+  if (index.items.length === 0) return false
+  const minCx = Math.max(0, Math.floor(minX / index.cellSize) - index.minCx)
+  const maxCx = Math.min(index.cols - 1, Math.floor(maxX / index.cellSize) - index.minCx)
+  const minCy = Math.max(0, Math.floor(minY / index.cellSize) - index.minCy)
+  const maxCy = Math.min(index.rows - 1, Math.floor(maxY / index.cellSize) - index.minCy)
+
+  for (let cy = minCy; cy <= maxCy; cy += 1) {
+    const rowBase = cy * index.cols
+    for (let cx = minCx; cx <= maxCx; cx += 1) {
+      const cell = rowBase + cx
+      const end = index.cellStart[cell + 1]
+      for (let slot = index.cellStart[cell]; slot < end; slot += 1) {
+        if (visit(slot) === true) return true
+      }
+    }
+  }
+  return false
+}
+
+export function forEachInRadius<T>(
+  index: SpatialIndex<T>,
+  center: XY,
+  radius: number,
+  visit: (item: T, d2: number) => void,
+) {
+  if (!(radius > 0)) return
+  const r2 = radius * radius
+  const { xs, ys, items } = index
+  forEachInBox(index, center.x - radius, center.y - radius, center.x + radius, center.y + radius, (slot) => {
+    const dx = xs[slot] - center.x
+    const dy = ys[slot] - center.y
+    const d2 = dx * dx + dy * dy
+    if (d2 <= r2) visit(items[slot], d2)
+  })
+}
+
+export function queryRadius<T>(index: SpatialIndex<T>, center: XY, radius: number) {
+  const found: T[] = []
+  forEachInRadius(index, center, radius, (item) => found.push(item))
+  return found
+}
+
+export function countInRadius<T>(index: SpatialIndex<T>, center: XY, radius: number) {
+  if (!(radius > 0)) return 0
+  const r2 = radius * radius
+  const { xs, ys } = index
+  let count = 0
+  forEachInBox(index, center.x - radius, center.y - radius, center.x + radius, center.y + radius, (slot) => {
+    const dx = xs[slot] - center.x
+    const dy = ys[slot] - center.y
+    if (dx * dx + dy * dy <= r2) count += 1
+  })
+  return count
+}
+
+export function queryNearest<T>(index: SpatialIndex<T>, center: XY, k: number, maxRadius = Infinity) {
+  const limit = Math.max(0, Math.floor(k))
+  if (limit === 0 || index.items.length === 0) return []
+
+  const best: { item: T; d2: number }[] = []
+  const maxR2 = maxRadius * maxRadius
+  const ccx = Math.floor(center.x / index.cellSize) - index.minCx
+  const ccy = Math.floor(center.y / index.cellSize) - index.minCy
+  const maxRing = Math.max(ccx, index.cols - 1 - ccx, ccy, index.rows - 1 - ccy)
+
+  const consider = (slot: number) => {
+    const dx = index.xs[slot] - center.x
+    const dy = index.ys[slot] - center.y
+    const d2 = dx * dx + dy * dy
+    if (d2 > maxR2) return
+    if (best.length === limit && d2 >= best[limit - 1].d2) return
+    let position = best.length
+    while (position > 0 && best[position - 1].d2 > d2) position -= 1
+    best.splice(position, 0, { item: index.items[slot], d2 })
+    if (best.length > limit) best.pop()
+  }
+
+  const visitCell = (cx: number, cy: number) => {
+    if (cx < 0 || cy < 0 || cx >= index.cols || cy >= index.rows) return
+    const cell = cy * index.cols + cx
+    const end = index.cellStart[cell + 1]
+    for (let slot = index.cellStart[cell]; slot < end; slot += 1) consider(slot)
+  }
+
+  for (let ring = 0; ring <= maxRing; ring += 1) {
+    // Every cell beyond this ring is at least ring * cellSize away from the center.
+    const ringD = (ring - 1) * index.cellSize
+    if (ring > 0 && ringD > 0) {
+      const ringD2 = ringD * ringD
+      if (ringD2 > maxR2) break
+      if (best.length === limit && best[limit - 1].d2 <= ringD2) break
+    }
+
+    if (ring === 0) {
+      visitCell(ccx, ccy)
+      continue
+    }
+    for (let dx = -ring; dx <= ring; dx += 1) {
+      visitCell(ccx + dx, ccy - ring)
+      visitCell(ccx + dx, ccy + ring)
+    }
+    for (let dy = -ring + 1; dy <= ring - 1; dy += 1) {
+      visitCell(ccx - ring, ccy + dy)
+      visitCell(ccx + ring, ccy + dy)
+    }
+  }
+
+  return best.map((entry) => entry.item)
+}
+
+function dist2ToSegment(px: number, py: number, a: XY, b: XY) {
+  const abx = b.x - a.x
+  const aby = b.y - a.y
+  const apx = px - a.x
+  const apy = py - a.y
+  const abLen2 = abx * abx + aby * aby
+  if (abLen2 < 1e-12) return apx * apx + apy * apy
+  const t = Math.max(0, Math.min(1, (apx * abx + apy * aby) / abLen2))
+  const dx = apx - t * abx
+  const dy = apy - t * aby
+  return dx * dx + dy * dy
+}
+
+export function someNearSegment<T>(
+  index: SpatialIndex<T>,
+  a: XY,
+  b: XY,
+  radius: number,
+  predicate?: (item: T, d2: number) => boolean,
+) {
+  if (!(radius > 0)) return false
+  const r2 = radius * radius
+  const { xs, ys, items } = index
+  return forEachInBox(
+    index,
+    Math.min(a.x, b.x) - radius,
+    Math.min(a.y, b.y) - radius,
+    Math.max(a.x, b.x) + radius,
+    Math.max(a.y, b.y) + radius,
+    (slot) => {
+      const d2 = dist2ToSegment(xs[slot], ys[slot], a, b)
+      if (d2 > r2) return false
+      return predicate ? predicate(items[slot], d2) : true
+    },
+  )
+}
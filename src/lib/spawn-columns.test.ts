@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { countSpawnOverlaps, spawnColumnsFrom, spawnColumnsToList } from "@/lib/spawn-columns"
+import type { ImportedSpawn } from "@/lib/spawn-import"
+
+const spawn = (id: number, x: number, extra: Partial<ImportedSpawn> = {}): ImportedSpawn => ({
+  id,
+  positionX: x,
+  positionY: 0,
+  positionZ: 0,
+  map: 0,
+  faction: 14,
+  levelMin: 10,
+  levelMax: 12,
+  ...extra,
+})
+
+describe("spawn columns", () => {
+  it("round-trips optional fields through the sentinels", () => {
+    const spawns = [spawn(1, 5, { entry: 299, name: "Wolf", respawnTime: 300 }), spawn(2, 6)]
+    expect(spawnColumnsToList(spawnColumnsFrom(spawns))).toEqual(spawns)
+  })
+
+  it("keeps fractional, negative and large values exactly", () => {
+    const spawns = [spawn(1.5, 5, { map: 1.5, faction: -3, levelMin: -1, levelMax: 70000.5, respawnTime: 2 ** 33 })]
+    expect(spawnColumnsToList(spawnColumnsFrom(spawns))).toEqual(spawns)
+  })
+
+  it("tells repeated spawns apart from guids reused at another position", () => {
+    const existing = spawnColumnsFrom([spawn(1, 0), spawn(2, 10)])
+    const next = spawnColumnsFrom([spawn(1, 0), spawn(2, 99), spawn(3, 0)])
+    expect(countSpawnOverlaps([existing], next)).toEqual({ duplicates: 1, sharedIds: 1 })
+  })
+})
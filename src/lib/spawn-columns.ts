@@ -0,0 +1,221 @@
+import type { ImportedSpawn } from "@/lib/spawn-import"
+
+// One typed array per field, so a multi-million-row dump costs a few dozen bytes per spawn instead of an object each.
+// The parsers accept any finite number, so every imported field is a Float64Array and keeps the exact value.
+// Optional fields use a sentinel: NaN for entry, 0 for respawnTime and -1 for nameIndex.
+export type SpawnColumns = {
+  count: number
+  id: Float64Array
+  positionX: Float64Array
+  positionY: Float64Array
+  positionZ: Float64Array
+  map: Float64Array
+  faction: Float64Array
+  levelMin: Float64Array
+  levelMax: Float64Array
+  respawnTime: Float64Array
+  entry: Float64Array
+  nameIndex: Int32Array
+  // Creature names repeat across thousands of spawns, so each distinct name is stored once.
+  names: string[]
+}
+
+type NumericColumn = Exclude<keyof SpawnColumns, "count" | "names">
+
+const INITIAL_CAPACITY = 1024
+
+function allocate(capacity: number) {
+  return {
+    id: new Float64Array(capacity),
+    positionX: new Float64Array(capacity),
+    positionY: new Float64Array(capacity),
+    positionZ: new Float64Array(capacity),
+    map: new Float64Array(capacity),
+    faction: new Float64Array(capacity),
+    levelMin: new Float64Array(capacity),
+    levelMax: new Float64Array(capacity),
+    respawnTime: new Float64Array(capacity),
+    entry: new Float64Array(capacity),
+    nameIndex: new Int32Array(capacity),
+  }
+}
+
+const NUMERIC_COLUMNS = Object.keys(allocate(0)) as NumericColumn[]
+
+export function createSpawnColumnBuilder(capacity = INITIAL_CAPACITY) {
+  let arrays = allocate(Math.max(1, capacity))
+  let count = 0
+  const names: string[] = []
+  const nameIndexes = new Map<string, number>()
+
+  const grow = () => {
+    const next = allocate(arrays.id.length * 2)
+    for (const column of NUMERIC_COLUMNS) next[column].set(arrays[column])
+    arrays = next
+  }
+
+  const push = (spawn: ImportedSpawn) => {
+    if (count === arrays.id.length) grow()
+    arrays.id[count] = spawn.id
+    arrays.positionX[count] = spawn.positionX
+    arrays.positionY[count] = spawn.positionY
+    arrays.positionZ[count] = spawn.positionZ
+    arrays.map[count] = spawn.map
+    arrays.faction[count] = spawn.faction
+    arrays.levelMin[count] = spawn.levelMin
+    arrays.levelMax[count] = spawn.levelMax
+    arrays.respawnTime[count] = spawn.respawnTime ?? 0
+    arrays.entry[count] = spawn.entry ?? NaN
+    let nameIndex = -1
+    if (spawn.name) {
+      nameIndex = nameIndexes.get(spawn.name) ?? names.length
+      if (nameIndex === names.length) {
+        names.push(spawn.name)
+        nameIndexes.set(spawn.name, nameIndex)
+      }
+    }
+    arrays.nameIndex[count] = nameIndex
+    count += 1
+  }
+
+  // Trims the arrays to the row count, so their buffers can be transferred without the unused capacity.
+  const finish = (): SpawnColumns => {
+    const trimmed = Object.fromEntries(NUMERIC_COLUMNS.map((column) => [column, arrays[column].slice(0, count)]))
+    return { count, names, ...(trimmed as ReturnType<typeof allocate>) }
+  }
+
+  return { push, finish, count: () => count }
+}
+
+export function spawnColumnsFrom(spawns: ImportedSpawn[]) {
+  const builder = createSpawnColumnBuilder(spawns.length)
+  for (const spawn of spawns) builder.push(spawn)
+  return builder.finish()
+}
+
+export function spawnAt(columns: SpawnColumns, index: number): ImportedSpawn {
+  const respawnTime = columns.respawnTime[index]
+  const entry = columns.entry[index]
+  const nameIndex = columns.nameIndex[index]
+  return {
+    id: columns.id[index],
+    positionX: columns.positionX[index],
+    positionY: columns.positionY[index],
+    positionZ: columns.positionZ[index],
+    map: columns.map[index],
+    faction: columns.faction[index],
+    levelMin: columns.levelMin[index],
+    levelMax: columns.levelMax[index],
+    ...(respawnTime > 0 ? { respawnTime } : {}),
+    ...(Number.isNaN(entry) ? {} : { entry }),
+    ...(nameIndex >= 0 ? { name: columns.names[nameIndex] } : {}),
+  }
+}
+
+export function spawnColumnsToList(columns: SpawnColumns) {
+  const spawns: ImportedSpawn[] = []
+  for (let index = 0; index < columns.count; index += 1) spawns.push(spawnAt(columns, index))
+  return spawns
+}
+
+// The same guid on the same map and position is the same spawn loaded twice; a guid shared by different positions
+// only means two datasets number their rows independently.
+export function sameSpawnAt(a: SpawnColumns, rowA: number, b: SpawnColumns, rowB: number) {
+  return (
+    a.id[rowA] === b.id[rowB] &&
+    a.map[rowA] === b.map[rowB] &&
+    a.positionX[rowA] === b.positionX[rowB] &&
+    a.positionY[rowA] === b.positionY[rowB] &&
+    a.positionZ[rowA] === b.positionZ[rowB]
+  )
+}
+
+// Counts how many rows of a new layer repeat a spawn already loaded, and how many only reuse an existing guid.
+export function countSpawnOverlaps(existing: SpawnColumns[], next: SpawnColumns) {
+  const firstById = new Map<number, { columns: SpawnColumns; row: number }>()
+  for (const columns of existing) {
+    for (let row = 0; row < columns.count; row += 1) {
+      if (!firstById.has(columns.id[row])) firstById.set(columns.id[row], { columns, row })
+    }
+  }
+  let duplicates = 0
+  let sharedIds = 0
+  for (let row = 0; row < next.count; row += 1) {
+    const first = firstById.get(next.id[row])
+    if (!first) continue
+    if (sameSpawnAt(first.columns, first.row, next, row)) duplicates += 1
+    else sharedIds += 1
+  }
+  return { duplicates, sharedIds }
+}
+
+// Project files keep each column as base64 of its bytes, which is several times smaller than a JSON object per
+// spawn and is read back without parsing a number at a time.
+export type EncodedSpawnColumns = {
+  count: number
+  names: string[]
+  columns: Record<NumericColumn, string>
+}
+
+const BASE64_CHUNK = 0x8000
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = ""
+  for (let start = 0; start < bytes.length; start += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + BASE64_CHUNK))
+  }
+  return btoa(binary)
+}
+
+function base64ToBytes(text: string) {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index)
+  return bytes
+}
+
+export function encodeSpawnColumns(columns: SpawnColumns): EncodedSpawnColumns {
+  const encoded = Object.fromEntries(
+    NUMERIC_COLUMNS.map((column) => {
+      const array = columns[column]
+      return [column, bytesToBase64(new Uint8Array(array.buffer, array.byteOffset, array.byteLength))]
+    }),
+  )
+  return { count: columns.count, names: columns.names, columns: encoded as Record<NumericColumn, string> }
+}
+
+// Returns null when a column is missing, is not base64 or does not hold `count` values, or when a name index
+// points past the name list.
+export function decodeSpawnColumns(value: unknown): SpawnColumns | null {
+  if (value === null || typeof value !== "object") return null
+  const { count, names, columns } = value as Partial<Record<keyof EncodedSpawnColumns, unknown>>
+  if (!Number.isInteger(count) || (count as number) < 0) return null
+  if (!Array.isArray(names) || !names.every((name) => typeof name === "string")) return null
+  if (columns === null || typeof columns !== "object") return null
+
+  // Base64 lengths are checked before anything is allocated, so a bad count cannot claim a huge buffer.
+  const texts = columns as Record<string, unknown>
+  const widths = allocate(0)
+  for (const column of NUMERIC_COLUMNS) {
+    const text = texts[column]
+    const bytes = (count as number) * widths[column].BYTES_PER_ELEMENT
+    if (typeof text !== "string" || text.length !== Math.ceil(bytes / 3) * 4) return null
+  }
+
+  const arrays = allocate(count as number)
+  for (const column of NUMERIC_COLUMNS) {
+    const target = arrays[column]
+    try {
+      new Uint8Array(target.buffer).set(base64ToBytes(texts[column] as string))
+    } catch {
+      return null
+    }
+  }
+  const result = { count: count as number, names: names as string[], ...arrays }
+  if (result.nameIndex.some((index) => index >= result.names.length)) return null
+  return result
+}
+
+export function spawnColumnBuffers(columns: SpawnColumns) {
+  return NUMERIC_COLUMNS.map((column) => columns[column].buffer as ArrayBuffer)
+}
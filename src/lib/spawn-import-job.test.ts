@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { runSpawnImportJob } from "@/lib/spawn-import-job"
+
+describe("runSpawnImportJob", () => {
+  it("imports each text file as its own layer and all SQL files as one", async () => {
+    const files = [
+      new File(["guid,x,y,z,map,minlevel,maxlevel\n1,1,2,3,0,5,6\n2,4,5,6,0,5,6\n"], "wolves.csv"),
+      new File(
+        ["INSERT INTO creature (guid, id1, map, position_x, position_y, position_z) VALUES (7, 100, 0, 1, 1, 1);"],
+        "creature.sql",
+      ),
+      new File(["1 1 2 3 0 14 5 6\n"], "guards.txt"),
+      new File(
+        ["INSERT INTO creature_template (entry, name, minlevel, maxlevel, faction) VALUES (100, 'Wolf', 3, 5, 22);"],
+        "template.sql",
+      ),
+    ]
+    const results = await runSpawnImportJob(files)
+    expect(results.map((result) => [result.name, result.kind, result.columns.count])).toEqual([
+      ["creature + template", "sql", 1],
+      ["wolves", "text", 2],
+      ["guards", "text", 1],
+    ])
+    expect(results[0].columns.levelMax[0]).toBe(5)
+  })
+})
@@ -0,0 +1,125 @@
+import { createCreatureSqlParser } from "@/lib/creature-sql"
+import { createSpawnColumnBuilder, type SpawnColumns } from "@/lib/spawn-columns"
+import { createSpawnTextParser, type SpawnField, type SpawnImportError } from "@/lib/spawn-import"
+
+export type SpawnImportJobProgress = {
+  stage: "read" | "parse"
+  progress: number
+  rows: number
+}
+
+// Each result becomes one layer: every text file on its own, and all SQL files together, since their creature and
+// creature_template rows have to be joined.
+export type SpawnImportJobResult = { name: string } & (
+  | {
+      kind: "text"
+      columns: SpawnColumns
+      errors: SpawnImportError[]
+      errorCount: number
+      delimiter: string
+      header: string[] | null
+      fields: Partial<Record<SpawnField, number>>
+    }
+  | {
+      kind: "sql"
+      columns: SpawnColumns
+      errors: SpawnImportError[]
+      errorCount: number
+      creatureRows: number
+      templateRows: number
+      missingTemplates: number
+    }
+)
+
+const SQL_INSERT_PATTERN = /^\s*(INSERT|REPLACE)\s+(IGNORE\s+)?INTO\s/im
+const SQL_SNIFF_BYTES = 64 * 1024
+
+async function isSqlFile(file: File) {
+  return /\.sql$/i.test(file.name) || SQL_INSERT_PATTERN.test(await file.slice(0, SQL_SNIFF_BYTES).text())
+}
+
+function layerName(files: File[]) {
+  return files.map((file) => file.name.replace(/\.[^.]+$/, "")).join(" + ")
+}
+
+// Files are decoded and parsed chunk by chunk, so neither a whole file as a string nor one object per spawn is
+// ever held in memory. `onBytes` is told how far the read has got.
+async function readChunks(file: File, onText: (text: string) => void, onBytes: (bytes: number) => void) {
+  const decoder = new TextDecoder()
+  const reader = file.stream().getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    onText(decoder.decode(value, { stream: true }))
+    onBytes(value.byteLength)
+  }
+  onText(decoder.decode())
+}
+
+type ProgressTracker = { read: (bytes: number, rows: number) => void }
+
+async function importText(file: File, tracker: ProgressTracker): Promise<SpawnImportJobResult> {
+  const builder = createSpawnColumnBuilder()
+  const parser = createSpawnTextParser(builder.push)
+  await readChunks(file, parser.push, (bytes) => tracker.read(bytes, builder.count()))
+  const summary = parser.finish()
+  return {
+    name: layerName([file]),
+    kind: "text",
+    columns: builder.finish(),
+    errors: summary.errors.map((error) => ({ ...error, source: file.name })),
+    errorCount: summary.errorCount,
+    delimiter: summary.delimiter,
+    header: summary.header,
+    fields: summary.columns,
+  }
+}
+
+async function importSql(files: File[], tracker: ProgressTracker): Promise<SpawnImportJobResult> {
+  const parser = createCreatureSqlParser()
+  for (const file of files) {
+    const reader = parser.openSource(file.name)
+    await readChunks(file, reader.push, (bytes) => tracker.read(bytes, parser.count()))
+    reader.end()
+  }
+  const result = parser.finish()
+  return { name: layerName(files), kind: "sql", ...result }
+}
+
+export async function runSpawnImportJob(files: File[], onProgress?: (progress: SpawnImportJobProgress) => void) {
+  const sqlFiles: File[] = []
+  const textFiles: File[] = []
+  for (const [index, file] of files.entries()) {
+    onProgress?.({ stage: "read", progress: index / files.length, rows: 0 })
+    if (await isSqlFile(file)) sqlFiles.push(file)
+    else textFiles.push(file)
+  }
+
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0)
+  let bytesRead = 0
+  let rowsDone = 0
+  let reported = -1
+  const tracker: ProgressTracker = {
+    read: (bytes, rows) => {
+      bytesRead += bytes
+      const progress = totalBytes > 0 ? bytesRead / totalBytes : 1
+      // Chunks are small, so progress is only posted when it moves by a whole percent.
+      if (Math.floor(progress * 100) > reported) {
+        reported = Math.floor(progress * 100)
+        onProgress?.({ stage: "parse", progress, rows: rowsDone + rows })
+      }
+    },
+  }
+
+  const imports = [
+    ...(sqlFiles.length > 0 ? [() => importSql(sqlFiles, tracker)] : []),
+    ...textFiles.map((file) => () => importText(file, tracker)),
+  ]
+  const results: SpawnImportJobResult[] = []
+  for (const run of imports) {
+    const result = await run()
+    rowsDone += result.columns.count
+    results.push(result)
+  }
+  return results
+}
@@ -0,0 +1,59 @@
+import type { SpawnImportJobProgress, SpawnImportJobResult } from "@/lib/spawn-import-job"
+
+export type SpawnImportWorkerRequest = { jobId: number; files: File[] }
+
+export type SpawnImportWorkerResponse =
+  | ({ type: "progress"; jobId: number } & SpawnImportJobProgress)
+  | { type: "done"; jobId: number; results: SpawnImportJobResult[] }
+  | { type: "error"; jobId: number; message: string }
+
+type WorkerHandlers = { signal?: AbortSignal; onProgress?: (progress: SpawnImportJobProgress) => void }
+
+let nextJobId = 1
+
+export function importSpawnFilesInWorker(files: File[], handlers: WorkerHandlers = {}) {
+  const { signal, onProgress } = handlers
+  const jobId = nextJobId
+  nextJobId += 1
+
+  return new Promise<SpawnImportJobResult[]>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Spawn import aborted", "AbortError"))
+      return
+    }
+
+    const worker = new Worker(new URL("./spawn-import.worker.ts", import.meta.url), { type: "module" })
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+
+    const onAbort = () => {
+      finish()
+      reject(new DOMException("Spawn import aborted", "AbortError"))
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    worker.onmessage = (event: MessageEvent<SpawnImportWorkerResponse>) => {
+      const message = event.data
+      if (message.jobId !== jobId) return
+      if (message.type === "progress") {
+        const { type: _type, jobId: _jobId, ...progress } = message
+        onProgress?.(progress)
+        return
+      }
+      finish()
+      if (message.type === "error") reject(new Error(message.message))
+      else resolve(message.results)
+    }
+
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || "Spawn import worker failed"))
+    }
+
+    const request: SpawnImportWorkerRequest = { jobId, files }
+    worker.postMessage(request)
+  })
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { createSpawnTextParser, detectDelimiter, parseSpawnText, splitFields, type ImportedSpawn } from "@/lib/spawn-import"
+
+describe("splitFields", () => {
+  it("keeps delimiters and doubled quotes inside quoted fields", () => {
+    expect(splitFields('1,"Kobold, Tunneler","say ""hi""",3', ",")).toEqual(["1", "Kobold, Tunneler", 'say "hi"', "3"])
+  })
+
+  it("splits runs of whitespace", () => {
+    expect(splitFields("  1   2\t3 ", " ")).toEqual(["1", "2", "3"])
+  })
+})
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter with the most consistent columns", () => {
+    expect(detectDelimiter(["1,2,3", "4,5,6"])).toBe(",")
+    expect(detectDelimiter(["1\t2;3", "4\t5;6", "7\t8;9"])).toBe("\t")
+    expect(detectDelimiter(["1|2|3|4", "5|6|7|8"])).toBe("|")
+  })
+
+  it("falls back to whitespace", () => {
+    expect(detectDelimiter(["1 2 3", "4 5 6"])).toBe(" ")
+  })
+})
+
+describe("parseSpawnText", () => {
+  it("reads headerless rows in the positional order", () => {
+    const result = parseSpawnText("1 10.5 20 30 0 14 5 7\n2 11 21 31 0 14 6 6 300 1234 Wolf")
+    expect(result.header).toBeNull()
+    expect(result.delimiter).toBe(" ")
+    expect(result.spawns).toEqual([
+      { id: 1, positionX: 10.5, positionY: 20, positionZ: 30, map: 0, faction: 14, levelMin: 5, levelMax: 7 },
+      {
+        id: 2,
+        positionX: 11,
+        positionY: 21,
+        positionZ: 31,
+        map: 0,
+        faction: 14,
+        levelMin: 6,
+        levelMax: 6,
+        respawnTime: 300,
+        entry: 1234,
+        name: "Wolf",
+      },
+    ])
+  })
+
+  it("maps header aliases, preferring guid for the id and reading id as the entry", () => {
+    const result = parseSpawnText('guid\tid\tmap\tposition_x\tposition_y\tposition_z\tminlevel\tname\n7\t99\t1\t1\t2\t3\t10\t"Boar"')
+    expect(result.header).not.toBeNull()
+    expect(result.columns.id).toBe(0)
+    expect(result.columns.entry).toBe(1)
+    expect(result.spawns[0]).toMatchObject({ id: 7, entry: 99, map: 1, levelMin: 10, levelMax: 10, name: "Boar" })
+  })
+
+  it("reports missing required columns and stops", () => {
+    const result = parseSpawnText("guid,x,y\n1,2,3")
+    expect(result.spawns).toEqual([])
+    expect(result.errors.map((error) => [error.reason, error.field])).toEqual([
+      ["missing-column", "positionZ"],
+      ["missing-column", "map"],
+      ["missing-column", "levelMax"],
+    ])
+  })
+
+  it("skips bad rows with line numbers", () => {
+    const result = parseSpawnText("1,1,1,1,0,0,1,2\n\n# comment\n1,1,1,1,0,0,1,2\n2,x,1,1,0,0,1,2\n3,1,1")
+    expect(result.spawns).toHaveLength(1)
+    expect(result.errorCount).toBe(3)
+    expect(result.errors.map((error) => [error.line, error.reason])).toEqual([
+      [4, "duplicate-id"],
+      [5, "not-a-number"],
+      [6, "too-few-fields"],
+    ])
+  })
+})
+
+describe("createSpawnTextParser", () => {
+  it("gives the same result however the text is chunked", () => {
+    let text = "guid,map,x,y,z,minlevel,maxlevel,name\r\n"
+    for (let id = 1; id <= 60; id += 1) text += `${id},0,${id * 1.5},${-id},${id % 4},3,5,"Mob ${id % 3}"\r\n`
+    const whole = parseSpawnText(text)
+    for (const size of [1, 7, 512]) {
+      const spawns: ImportedSpawn[] = []
+      const parser = createSpawnTextParser((spawn) => spawns.push(spawn))
+      for (let start = 0; start < text.length; start += size) parser.push(text.slice(start, start + size))
+      const summary = parser.finish()
+      expect(spawns).toEqual(whole.spawns)
+      expect(summary.errorCount).toBe(0)
+    }
+    expect(whole.spawns).toHaveLength(60)
+  })
+})
@@ -0,0 +1,300 @@
+export type ImportedSpawn = {
+  id: number
+  positionX: number
+  positionY: number
+  positionZ: number
+  map: number
+  faction: number
+  levelMin: number
+  levelMax: number
+  respawnTime?: number
+  entry?: number
+  name?: string
+}
+
+export type SpawnField = keyof ImportedSpawn
+
+export type SpawnImportErrorReason =
+  | "missing-column"
+  | "too-few-fields"
+  | "not-a-number"
+  | "missing-value"
+  | "duplicate-id"
+  | "syntax-error"
+  | "column-mismatch"
+
+export type SpawnImportError = {
+  source?: string
+  line: number
+  reason: SpawnImportErrorReason
+  field?: SpawnField
+  text: string
+}
+
+export type SpawnImportResult = {
+  spawns: ImportedSpawn[]
+  errors: SpawnImportError[]
+  errorCount: number
+  delimiter: string
+  header: string[] | null
+  columns: Partial<Record<SpawnField, number>>
+}
+
+const DELIMITERS = [",", "\t", ";", "|"]
+const WHITESPACE = " "
+const SAMPLE_LINES = 20
+export const MAX_IMPORT_ERRORS = 1000
+
+// Header names are compared after lower-casing and dropping everything but letters and digits.
+// Aliases are tried in order, so a creature dump with both guid and id keys spawns by guid and reads id as the entry.
+const FIELD_ALIASES: Record<SpawnField, string[]> = {
+  id: ["guid", "spawnid", "spawnguid", "id"],
+  positionX: ["positionx", "posx", "x"],
+  positionY: ["positiony", "posy", "y"],
+  positionZ: ["positionz", "posz", "z"],
+  map: ["map", "mapid"],
+  faction: ["faction", "factiontemplate", "factiona"],
+  levelMin: ["levelmin", "minlevel", "lvlmin"],
+  levelMax: ["levelmax", "maxlevel", "lvlmax"],
+  respawnTime: ["spawntimesecs", "spawntime", "respawntime", "respawn", "respawnsecs"],
+  entry: ["entry", "id1", "creatureid", "creatureentry", "id"],
+  name: ["name", "creaturename"],
+}
+
+// Headerless dumps use the original column order, with the optional columns appended.
+const POSITIONAL_FIELDS: SpawnField[] = [
+  "id",
+  "positionX",
+  "positionY",
+  "positionZ",
+  "map",
+  "faction",
+  "levelMin",
+  "levelMax",
+  "respawnTime",
+  "entry",
+  "name",
+]
+
+const REQUIRED_FIELDS: SpawnField[] = ["id", "positionX", "positionY", "positionZ", "map"]
+
+function normalizeHeader(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+export function splitFields(line: string, delimiter: string) {
+  if (delimiter === WHITESPACE) return line.trim().split(/\s+/)
+
+  const fields: string[] = []
+  let current = ""
+  let quoted = false
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"' && current.trim() === "") {
+      quoted = true
+      current = ""
+    } else if (char === delimiter) {
+      fields.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  fields.push(current.trim())
+  return fields
+}
+
+// Picks the delimiter that splits the sample into the most columns with the same count on every line.
+export function detectDelimiter(lines: string[]) {
+  const sample = lines.slice(0, SAMPLE_LINES)
+  let best = WHITESPACE
+  let bestScore = 0
+  for (const delimiter of DELIMITERS) {
+    const counts = sample.map((line) => splitFields(line, delimiter).length)
+    const columns = Math.min(...counts)
+    if (columns < 2) continue
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length
+    const score = columns * consistent
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  }
+  return best
+}
+
+function mapHeader(fields: string[]) {
+  const names = fields.map(normalizeHeader)
+  const used = new Set<number>()
+  const columns: Partial<Record<SpawnField, number>> = {}
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [SpawnField, string[]][]) {
+    for (const alias of aliases) {
+      const index = names.findIndex((name, column) => name === alias && !used.has(column))
+      if (index < 0) continue
+      columns[field] = index
+      used.add(index)
+      break
+    }
+  }
+  return { columns, matched: used.size }
+}
+
+function parseNumber(value: string | undefined) {
+  if (value === undefined || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : NaN
+}
+
+function parseRow(
+  row: { line: number; text: string },
+  delimiter: string,
+  columns: Partial<Record<SpawnField, number>>,
+  requiredCount: number,
+): ImportedSpawn | SpawnImportError {
+  const fields = splitFields(row.text, delimiter)
+  if (fields.length < requiredCount) return { line: row.line, reason: "too-few-fields", text: row.text }
+
+  const values: Partial<Record<SpawnField, number>> = {}
+  for (const field of POSITIONAL_FIELDS) {
+    if (field === "name") continue
+    const column = columns[field]
+    if (column === undefined) continue
+    const value = parseNumber(fields[column])
+    if (value === undefined) {
+      if (REQUIRED_FIELDS.includes(field)) return { line: row.line, reason: "missing-value", field, text: row.text }
+      continue
+    }
+    if (Number.isNaN(value)) return { line: row.line, reason: "not-a-number", field, text: row.text }
+    values[field] = value
+  }
+
+  const levelMin = values.levelMin ?? values.levelMax
+  const levelMax = values.levelMax ?? values.levelMin
+  if (levelMin === undefined || levelMax === undefined) {
+    return { line: row.line, reason: "missing-value", field: "levelMax", text: row.text }
+  }
+
+  const name = columns.name !== undefined ? fields[columns.name] : undefined
+  return {
+    id: values.id ?? 0,
+    positionX: values.positionX ?? 0,
+    positionY: values.positionY ?? 0,
+    positionZ: values.positionZ ?? 0,
+    map: values.map ?? 0,
+    faction: values.faction ?? 0,
+    levelMin,
+    levelMax,
+    ...(values.respawnTime !== undefined && values.respawnTime > 0 ? { respawnTime: values.respawnTime } : {}),
+    ...(values.entry !== undefined ? { entry: values.entry } : {}),
+    ...(name ? { name } : {}),
+  }
+}
+
+// Takes the file in chunks of any size and hands each parsed spawn to `onSpawn`. The delimiter and header are
+// decided once the first SAMPLE_LINES content lines have arrived. Only the first MAX_IMPORT_ERRORS errors are
+// kept, while `errorCount` counts them all, so a broken multi-million-line file cannot fill memory with errors.
+export function createSpawnTextParser(onSpawn: (spawn: ImportedSpawn) => void) {
+  const errors: SpawnImportError[] = []
+  let errorCount = 0
+  let lineNumber = 0
+  let rest = ""
+  let sample: { line: number; text: string }[] | null = []
+  let delimiter = WHITESPACE
+  let header: string[] | null = null
+  let columns: Partial<Record<SpawnField, number>> = {}
+  let requiredCount = 0
+  let failed = false
+  const seen = new Set<number>()
+
+  const addError = (error: SpawnImportError) => {
+    errorCount += 1
+    if (errors.length < MAX_IMPORT_ERRORS) errors.push(error)
+  }
+
+  const handleRow = (row: { line: number; text: string }) => {
+    const parsed = parseRow(row, delimiter, columns, requiredCount)
+    if ("reason" in parsed) {
+      addError(parsed)
+    } else if (seen.has(parsed.id)) {
+      addError({ line: row.line, reason: "duplicate-id", field: "id", text: row.text })
+    } else {
+      seen.add(parsed.id)
+      onSpawn(parsed)
+    }
+  }
+
+  // A first line with a non-numeric field that names known columns is a header.
+  const setup = (content: { line: number; text: string }[]) => {
+    delimiter = detectDelimiter(content.map((item) => item.text))
+    const first = content[0] ? splitFields(content[0].text, delimiter) : []
+    const headerMapping = mapHeader(first)
+    const hasHeader = first.some((field) => field !== "" && Number.isNaN(Number(field))) && headerMapping.matched > 0
+    header = hasHeader ? first : null
+    columns = hasHeader ? headerMapping.columns : Object.fromEntries(POSITIONAL_FIELDS.map((field, index) => [field, index]))
+    requiredCount = hasHeader ? 0 : POSITIONAL_FIELDS.indexOf("levelMax") + 1
+
+    if (hasHeader) {
+      const missing = REQUIRED_FIELDS.filter((field) => columns[field] === undefined)
+      if (columns.levelMin === undefined && columns.levelMax === undefined) missing.push("levelMax")
+      if (missing.length > 0) {
+        for (const field of missing) addError({ line: content[0].line, reason: "missing-column", field, text: content[0].text })
+        failed = true
+        return
+      }
+    }
+    for (const row of hasHeader ? content.slice(1) : content) handleRow(row)
+  }
+
+  const handleLine = (raw: string) => {
+    lineNumber += 1
+    if (failed) return
+    const text = raw.trim()
+    if (text.length === 0 || text.startsWith("#")) return
+    const row = { line: lineNumber, text }
+    if (!sample) {
+      handleRow(row)
+      return
+    }
+    sample.push(row)
+    if (sample.length === SAMPLE_LINES) {
+      const content = sample
+      sample = null
+      setup(content)
+    }
+  }
+
+  const push = (chunk: string) => {
+    const lines = (rest + chunk).split("\n")
+    rest = lines.pop() ?? ""
+    for (const line of lines) handleLine(line)
+  }
+
+  const finish = (): Omit<SpawnImportResult, "spawns"> => {
+    handleLine(rest)
+    rest = ""
+    if (sample) {
+      const content = sample
+      sample = null
+      setup(content)
+    }
+    return { errors, errorCount, delimiter, header, columns }
+  }
+
+  return { push, finish }
+}
+
+export function parseSpawnText(text: string): SpawnImportResult {
+  const spawns: ImportedSpawn[] = []
+  const parser = createSpawnTextParser((spawn) => spawns.push(spawn))
+  parser.push(text)
+  return { spawns, ...parser.finish() }
+}
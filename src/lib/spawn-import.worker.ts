@@ -0,0 +1,18 @@
+import { spawnColumnBuffers } from "@/lib/spawn-columns"
+import { runSpawnImportJob } from "@/lib/spawn-import-job"
+import type { SpawnImportWorkerRequest, SpawnImportWorkerResponse } from "@/lib/spawn-import-worker"
+
+function post(message: SpawnImportWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = async (event: MessageEvent<SpawnImportWorkerRequest>) => {
+  const { jobId, files } = event.data
+  try {
+    const results = await runSpawnImportJob(files, (progress) => post({ type: "progress", jobId, ...progress }))
+    // The column buffers are moved to the page rather than copied.
+    post({ type: "done", jobId, results }, results.flatMap((result) => spawnColumnBuffers(result.columns)))
+  } catch (error) {
+    post({ type: "error", jobId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
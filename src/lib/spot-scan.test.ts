@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { scanGrindingSpots, type SpotScanRequest } from "@/lib/spot-scan"
+
+function request(points: SpotScanRequest["points"], radius: number): SpotScanRequest {
+  return {
+    points,
+    autoTune: false,
+    clusterRadius: radius,
+    maxAreaRadius: radius,
+    maxStepDistance: radius,
+    avoidDenseTravelRadius: 0,
+    maxWaypoints: 3,
+    routeCount: 1,
+    minRouteSeparation: 0,
+    options: {},
+    maxCandidates: 12,
+  }
+}
+
+// A square camp of side × side spawns, 10 apart, around the given corner.
+function camp(firstId: number, x: number, y: number, side: number, level: number) {
+  return Array.from({ length: side * side }, (_, index) => ({
+    id: firstId + index,
+    x: x + (index % side) * 10,
+    y: y + Math.floor(index / side) * 10,
+    z: 0,
+    level,
+  }))
+}
+
+describe("scanGrindingSpots", () => {
+  it("keeps the window grid bounded for a tiny radius on a large map and still finds the camp", () => {
+    const tiny = Array.from({ length: 12 }, (_, index) => ({
+      id: index,
+      x: 10_000 + (index % 4) * 2,
+      y: 10_000 + Math.floor(index / 4) * 2,
+      z: 0,
+      level: 10,
+    }))
+    const corners = [
+      { id: 100, x: 0, y: 0, z: 0, level: 10 },
+      { id: 101, x: 20_000, y: 20_000, z: 0, level: 10 },
+    ]
+    expect(scanGrindingSpots(request([...tiny, ...corners], 5)).scanned).toBe(1)
+  })
+
+  // Coverage waypoints pull every spawn within 15, so the bigger camp engages more in the same three waypoints.
+  const big = camp(0, 0, 0, 4, 30)
+  const small = camp(100, 1000, 0, 2, 10)
+  const scan = (extra: Partial<SpotScanRequest>) =>
+    scanGrindingSpots({
+      ...request([...big, ...small], 60),
+      clusterRadius: 1,
+      options: { coverageRadius: 15 },
+      ...extra,
+    })
+
+  it("ranks the camp that engages more spawns first and stops at the candidate limit", () => {
+    const result = scan({})
+    expect(result.spots.map((spot) => spot.center.x < 500)).toEqual([true, false])
+    expect(result.spots[0].engaged).toBeGreaterThan(result.spots[1].engaged)
+
+    const limited = scan({ maxCandidates: 1 })
+    expect(limited.scanned).toBe(1)
+    expect(limited.spots.map((spot) => spot.center.x < 500)).toEqual([true])
+  })
+
+  it("leaves out spawns outside the level range", () => {
+    const result = scan({ levelRange: [5, 15] })
+    expect(result.spots).toHaveLength(1)
+    expect(result.spots[0].center.x).toBeGreaterThan(500)
+    expect(result.spots[0].meanLevel).toBe(10)
+  })
+})
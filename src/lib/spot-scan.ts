@@ -0,0 +1,160 @@
+import type { SpawnXYZ, XY } from "@/lib/auto-route"
+import { runAutoRouteJob, type AutoRouteJobRequest, type AutoRouteJobResult } from "@/lib/auto-route-job"
+import { createSpatialIndex, forEachInRadius } from "@/lib/spatial-index"
+
+export type SpotScanRequest = Omit<AutoRouteJobRequest, "center"> & {
+  maxCandidates: number
+  // Spawns whose level range does not overlap this one are left out of every window and route; hazards are kept
+  // whatever their level, as they are in the spawn filters.
+  levelRange?: [number, number]
+}
+
+export type SpotCandidate = {
+  center: XY
+  spawnCount: number
+  meanLevel: number | null
+  safeRatio: number
+  picked: number
+  engaged: number
+  travelDistance: number
+  xpPerHour: number | null
+  score: number
+  job: AutoRouteJobResult
+}
+
+export type SpotScanResult = {
+  scanned: number
+  spots: SpotCandidate[]
+}
+
+export type SpotScanProgress = {
+  stage: "scan"
+  progress: number
+}
+
+const MAX_SCAN_WINDOWS = 4096
+
+// Windows are laid out on a grid one route radius apart, then slid onto the centroid of the spawns they hold,
+// so each candidate centre sits on a camp instead of an arbitrary grid node. A small radius over a large extent
+// widens the grid step to keep the window count bounded; each window then gathers spawns over its whole grid cell.
+function candidateCenters(request: SpotScanRequest) {
+  const { points } = request
+  const radius = request.maxAreaRadius
+  if (points.length === 0 || !(radius > 0)) return []
+
+  const index = createSpatialIndex(points, radius, (item) => item)
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const point of points) {
+    minX = Math.min(minX, point.x)
+    maxX = Math.max(maxX, point.x)
+    minY = Math.min(minY, point.y)
+    maxY = Math.max(maxY, point.y)
+  }
+
+  const step = Math.max(radius, Math.sqrt(((maxX - minX + radius) * (maxY - minY + radius)) / MAX_SCAN_WINDOWS))
+  const gatherRadius = Math.max(radius, step * Math.SQRT1_2)
+  const minSpawns = Math.max(3, request.maxWaypoints)
+  const windows: { center: XY; spawnCount: number }[] = []
+  for (let y = minY; y <= maxY + step / 2; y += step) {
+    for (let x = minX; x <= maxX + step / 2; x += step) {
+      let count = 0
+      let sumX = 0
+      let sumY = 0
+      forEachInRadius(index, { x, y }, gatherRadius, (point) => {
+        count += 1
+        sumX += point.x
+        sumY += point.y
+      })
+      if (count < minSpawns) continue
+      const center = { x: sumX / count, y: sumY / count }
+      let spawnCount = 0
+      forEachInRadius(index, center, radius, () => {
+        spawnCount += 1
+      })
+      windows.push({ center, spawnCount })
+    }
+  }
+
+  windows.sort((a, b) => b.spawnCount - a.spawnCount)
+  const picked: { center: XY; spawnCount: number }[] = []
+  const minGap2 = (radius / 2) * (radius / 2)
+  for (const window of windows) {
+    if (picked.length >= request.maxCandidates) break
+    const overlaps = picked.some((other) => {
+      const dx = other.center.x - window.center.x
+      const dy = other.center.y - window.center.y
+      return dx * dx + dy * dy < minGap2
+    })
+    if (!overlaps) picked.push(window)
+  }
+  return picked
+}
+
+function meanLevelAround(request: SpotScanRequest, center: XY, radius: number) {
+  const r2 = radius * radius
+  let sum = 0
+  let count = 0
+  for (const point of request.points) {
+    const dx = point.x - center.x
+    const dy = point.y - center.y
+    if (dx * dx + dy * dy > r2 || point.level === undefined) continue
+    sum += ((point.levelMin ?? point.level) + point.level) / 2
+    count += 1
+  }
+  return count > 0 ? sum / count : null
+}
+
+function inLevelRange(point: SpawnXYZ, [min, max]: [number, number]) {
+  return point.level === undefined || ((point.levelMin ?? point.level) <= max && point.level >= min)
+}
+
+function withinLevelRange(request: SpotScanRequest): SpotScanRequest {
+  const { levelRange } = request
+  if (!levelRange) return request
+  const hazardIds = new Set(request.options.hazardIds ?? [])
+  const points = request.points.filter((point) => hazardIds.has(point.id) || inLevelRange(point, levelRange))
+  return { ...request, points }
+}
+
+export function scanGrindingSpots(
+  scan: SpotScanRequest,
+  onProgress?: (progress: SpotScanProgress) => void,
+): SpotScanResult {
+  const request = withinLevelRange(scan)
+  const centers = candidateCenters(request)
+  const byXp = request.options.objective === "xp-per-hour" && request.options.simulation !== undefined
+  const spots: SpotCandidate[] = []
+
+  for (const [index, { center, spawnCount }] of centers.entries()) {
+    onProgress?.({ stage: "scan", progress: index / centers.length })
+    const job = runAutoRouteJob({ ...request, center }, (inner) => {
+      const within = inner.stage === "tune" ? inner.progress * 0.9 : 0.9 + inner.progress * 0.1
+      onProgress?.({ stage: "scan", progress: (index + within) / centers.length })
+    })
+    const routes = job.results.filter((result) => result.route.length > 0)
+    if (routes.length === 0) continue
+
+    const first = job.results[0]
+    const xpPerHour = job.simulations ? job.simulations.reduce((sum, simulation) => sum + simulation.xpPerHour, 0) : null
+    const engaged = routes.reduce((sum, result) => sum + result.stats.engaged, 0)
+    spots.push({
+      center,
+      spawnCount,
+      meanLevel: meanLevelAround(request, center, job.maxAreaRadius),
+      safeRatio: first.stats.inArea > 0 ? first.stats.safeInArea / first.stats.inArea : 0,
+      picked: routes.reduce((sum, result) => sum + result.stats.picked, 0),
+      engaged,
+      travelDistance: routes.reduce((sum, result) => sum + result.stats.travelDistance, 0),
+      xpPerHour,
+      score: byXp && xpPerHour !== null ? xpPerHour : engaged,
+      job,
+    })
+  }
+
+  onProgress?.({ stage: "scan", progress: 1 })
+  spots.sort((a, b) => b.score - a.score || b.safeRatio - a.safeRatio)
+  return { scanned: centers.length, spots }
+}
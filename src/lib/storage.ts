@@ -0,0 +1,126 @@
+import { isTauri } from "@tauri-apps/api/core"
+import { appDataDir, join } from "@tauri-apps/api/path"
+import { open, save } from "@tauri-apps/plugin-dialog"
+import { exists, mkdir, readTextFile, writeTextFile } from "@tauri-apps/plugin-fs"
+
+export type FileFilter = { name: string; extensions: string[] }
+
+export type OpenedFile = {
+  name: string
+  // Only the desktop build knows where a file lives; the browser only sees its contents.
+  path: string | null
+  text: string
+}
+
+export type RecentProject = {
+  path: string
+  name: string
+  openedAt: string
+}
+
+export type ProjectStorage = {
+  native: boolean
+  openText: (filters: FileFilter[]) => Promise<OpenedFile | null>
+  readPath: (path: string) => Promise<OpenedFile>
+  exists: (path: string) => Promise<boolean>
+  // Writes to `path` when given, otherwise asks where to save; resolves to the saved path, or null when cancelled.
+  saveText: (suggestedName: string, text: string, filters: FileFilter[], path?: string | null) => Promise<string | null>
+  readAutosave: () => Promise<string | null>
+  writeAutosave: (text: string) => Promise<void>
+  readRecent: () => Promise<RecentProject[]>
+  writeRecent: (projects: RecentProject[]) => Promise<void>
+}
+
+const AUTOSAVE_FILE = "autosave.project.json"
+const RECENT_FILE = "recent-projects.json"
+const WEB_AUTOSAVE_KEY = "grinder-maker:autosave"
+export const MAX_RECENT_PROJECTS = 8
+
+function baseName(path: string) {
+  return path.split(/[\\/]/).pop() ?? path
+}
+
+function parseRecent(text: string | null) {
+  if (!text) return []
+  try {
+    const data: unknown = JSON.parse(text)
+    return Array.isArray(data) ? (data as RecentProject[]).filter((item) => typeof item?.path === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function addRecentProject(projects: RecentProject[], path: string, openedAt = new Date()) {
+  const entry = { path, name: baseName(path), openedAt: openedAt.toISOString() }
+  return [entry, ...projects.filter((item) => item.path !== path)].slice(0, MAX_RECENT_PROJECTS)
+}
+
+function createNativeStorage(): ProjectStorage {
+  const dataPath = async (file: string) => {
+    const dir = await appDataDir()
+    if (!(await exists(dir))) await mkdir(dir, { recursive: true })
+    return join(dir, file)
+  }
+  const readIfExists = async (path: string) => ((await exists(path)) ? readTextFile(path) : null)
+
+  const readPath = async (path: string) => ({ name: baseName(path), path, text: await readTextFile(path) })
+
+  return {
+    native: true,
+    openText: async (filters) => {
+      const path = await open({ multiple: false, directory: false, filters })
+      return path ? readPath(path) : null
+    },
+    readPath,
+    exists,
+    saveText: async (suggestedName, text, filters, path) => {
+      const target = path ?? (await save({ defaultPath: suggestedName, filters }))
+      if (!target) return null
+      await writeTextFile(target, text)
+      return target
+    },
+    readAutosave: async () => readIfExists(await dataPath(AUTOSAVE_FILE)),
+    writeAutosave: async (text) => writeTextFile(await dataPath(AUTOSAVE_FILE), text),
+    readRecent: async () => parseRecent(await readIfExists(await dataPath(RECENT_FILE))),
+    writeRecent: async (projects) => writeTextFile(await dataPath(RECENT_FILE), JSON.stringify(projects)),
+  }
+}
+
+// The web build has no file system: files go through an upload picker and a download, autosave through localStorage.
+function createWebStorage(): ProjectStorage {
+  return {
+    native: false,
+    openText: (filters) =>
+      new Promise((resolve, reject) => {
+        const input = document.createElement("input")
+        input.type = "file"
+        input.accept = filters.flatMap((filter) => filter.extensions.map((extension) => `.${extension}`)).join(",")
+        input.addEventListener("change", () => {
+          const file = input.files?.[0]
+          if (!file) return resolve(null)
+          file.text().then((text) => resolve({ name: file.name, path: null, text }), reject)
+        })
+        input.addEventListener("cancel", () => resolve(null))
+        input.click()
+      }),
+    readPath: () => Promise.reject(new Error("Opening files by path needs the desktop app")),
+    exists: async () => false,
+    saveText: async (suggestedName, text) => {
+      const url = URL.createObjectURL(new Blob([text], { type: "application/octet-stream" }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = suggestedName
+      link.click()
+      URL.revokeObjectURL(url)
+      return suggestedName
+    },
+    readAutosave: async () => localStorage.getItem(WEB_AUTOSAVE_KEY),
+    writeAutosave: async (text) => localStorage.setItem(WEB_AUTOSAVE_KEY, text),
+    readRecent: async () => [],
+    writeRecent: async () => {},
+  }
+}
+
+export function createProjectStorage(): ProjectStorage {
+  return isTauri() ? createNativeStorage() : createWebStorage()
+}